@@ -0,0 +1,73 @@
+#!/usr/bin/env tsx
+/**
+ * Accessibility Audit
+ * Checks every HTML page in builds/ for missing alt text, skipped heading
+ * levels, missing lang, unlabelled controls, low-contrast text and similar
+ * problems, and writes the findings to builds/a11y-report.json
+ *
+ * Usage:
+ *   npm run audit-a11y                          # Audit every built project
+ *   npm run audit-a11y project-name             # Audit a specific project
+ *   npm run audit-a11y -- --max-errors=0        # Fail if there are any errors
+ *   npm run audit-a11y -- --max-warnings=20     # Fail above 20 warnings
+ *
+ * Without thresholds the audit only reports; with them it exits non-zero when
+ * the totals exceed them.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  A11Y_REPORT_FILENAME,
+  A11yThresholdError,
+  checkA11yThresholds,
+  parseA11yThresholds,
+  printA11ySummary,
+  writeA11yReport,
+} from './lib/accessibility.ts';
+
+const BUILDS_DIR = path.join(process.cwd(), 'builds');
+
+console.log('♿ Accessibility Audit\n');
+
+if (!fs.existsSync(BUILDS_DIR)) {
+  console.error("❌ Builds directory not found. Run 'npm run build-all' first.");
+  process.exit(1);
+}
+
+const args = process.argv.slice(2);
+const specificProject = args.find(arg => !arg.startsWith('-'));
+let thresholds;
+try {
+  thresholds = parseA11yThresholds(args);
+} catch (error) {
+  if (error instanceof A11yThresholdError) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
+
+if (specificProject && !fs.existsSync(path.join(BUILDS_DIR, specificProject))) {
+  console.error(`❌ Build not found: builds/${specificProject}/`);
+  process.exit(1);
+}
+
+const projects = specificProject
+  ? [specificProject]
+  : fs.readdirSync(BUILDS_DIR, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name);
+
+const report = writeA11yReport(BUILDS_DIR, projects);
+printA11ySummary(report);
+console.log(`📄 Report: builds/${A11Y_REPORT_FILENAME}`);
+
+const failures = checkA11yThresholds(report, thresholds);
+if (failures.length > 0) {
+  failures.forEach(failure => console.error(`❌ ${failure}`));
+  console.log();
+  process.exit(1);
+}
+
+console.log('\n✨ Audit complete\n');
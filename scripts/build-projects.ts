@@ -6,96 +6,175 @@
  * Usage:
  *   npm run build-all              # Build all projects
  *   npm run build project-name     # Build specific project
+ *   npm run build-all -- --force   # Rebuild even if nothing changed
+ *   npm run build-all -- --parallel=4  # Run up to 4 Vite builds at once
+ *   npm run build-all -- --check-links   # Report broken links after building
+ *   npm run build-all -- --strict-links  # ...and fail the build if any are found
+ *   npm run build-all -- --audit-a11y    # Run the accessibility audit after building
+ *   npm run build-all -- --max-a11y-errors=0  # ...and fail the build above a threshold
+ *   npm run build-all -- --dry-run # Show what would be renamed and built
+ *
+ * Projects whose inputs and build output match builds/.build-manifest.json
+ * are skipped; -f / --force rebuilds them anyway.
+ *
+ * --max-a11y-errors=N and --max-a11y-warnings=N imply --audit-a11y; the report
+ * is written to builds/a11y-report.json (see scripts/audit-a11y.ts).
+ *
+ * --dry-run reports directory renames, builds and gallery regeneration without
+ * writing anything to projects/ or builds/.
+ *
+ * Vite builds run in-process, BUILD_PARALLELISM (default 2) at a time unless
+ * --parallel=N is given. A failed build is reported and the remaining projects
+ * still build; the script exits non-zero if anything failed.
  *
  * For .tsx projects: Builds with Vite
  * For .html projects: Copies to build directory
- * All projects: Generates README.txt from metadata
+ * For .md projects: Renders index.md to a standalone index.html
+ * Revisions: Each archived version in projects/<name>/revisions/<n>/ is built the
+ *   same way to builds/<name>/v/<n>/, with a banner linking to the latest version
+ * All projects: Adds OpenGraph/Twitter tags, a canonical URL and a preview card
+ *   (og-image.png) to every HTML page, and generates README.txt from metadata
+ * Site bar: Every page gets a bar linking back to the gallery, unless the project
+ *   sets "siteBar": false (see scripts/lib/site-bar.ts)
+ * Series: Every page of a project in a series gets a navigation bar linking to
+ *   the other parts (see scripts/lib/series.ts)
+ * HTML and Markdown pages: Gives headings without an id one, for search deep links
+ * Always: Regenerates the builds/index.html gallery, feed.xml, sitemap.xml and
+ *   search-index.json (tsx projects are rendered on the server when rebuilt)
+ *
+ * A project whose project.json name no longer matches its directory is renamed,
+ * and the old slug is recorded in project-aliases.json. Every build writes
+ * redirect pages to builds/<old-slug>/ for each alias.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { execSync } from 'child_process';
+import {
+  AliasMapError,
+  ALIASES_FILENAME,
+  loadAliases,
+  recordRename,
+  saveAliases,
+  writeRedirects,
+  type AliasMap,
+} from './lib/aliases.ts';
+import {
+  hashBuildOutput,
+  hashProjectInputs,
+  isUpToDate,
+  loadBuildManifest,
+  saveBuildManifest,
+} from './lib/build-manifest.ts';
+import { mapWithConcurrency } from './lib/concurrency.ts';
+import {
+  A11Y_REPORT_FILENAME,
+  A11yThresholdError,
+  checkA11yThresholds,
+  parseA11yThresholds,
+  printA11ySummary,
+  writeA11yReport,
+} from './lib/accessibility.ts';
+import { writeFeeds } from './lib/feed.ts';
+import { writeGallery } from './lib/gallery.ts';
+import { checkProjectLinks, reportLinkIssues } from './lib/link-check.ts';
+import { renderMarkdownPage } from './lib/markdown.ts';
+import {
+  loadAllProjectMetadata,
+  loadProjectMetadata,
+  MetadataValidationError,
+  type ProjectMetadata,
+} from './lib/metadata.ts';
+import {
+  addRevisionBanner,
+  listRevisions,
+  renderRevisionBanner,
+  REVISION_BUILD_DIR,
+  REVISION_FILENAME,
+  REVISIONS_DIR,
+  type Revision,
+} from './lib/revisions.ts';
+import { addHeadingAnchors, SEARCH_INDEX_FILENAME, writeSearchIndex } from './lib/search.ts';
+import { addSeriesNav, collectSeries, renderSeriesNav, SeriesError, type Series } from './lib/series.ts';
+import { loadSiteConfig, SITE_DESCRIPTION, SITE_NAME, SiteConfigError, type SiteConfig } from './lib/site.ts';
+import { addSiteBar, renderSiteBar } from './lib/site-bar.ts';
+import { addSocialMetadata } from './lib/social.ts';
+import { loadVendorCache, VendorCacheError, vendorProject } from './lib/vendor.ts';
+import { buildTsxWithVite, TsxBuildError } from './lib/vite-build.ts';
 
 const PROJECTS_DIR = path.join(process.cwd(), 'projects');
 const BUILDS_DIR = path.join(process.cwd(), 'builds');
 const PARENT_README_PATH = path.join(process.cwd(), 'parent-README.txt');
-
-interface ProjectMetadata {
-  name: string;
-  title: string;
-  description: string;
-  type: 'tsx' | 'html';
+const VENDOR_CACHE_DIR = path.join(process.cwd(), 'vendor-cache');
+const ALIASES_PATH = path.join(process.cwd(), ALIASES_FILENAME);
+
+let site: SiteConfig;
+try {
+  site = loadSiteConfig();
+} catch (error) {
+  if (!(error instanceof SiteConfigError)) throw error;
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
 }
+const SITE_URL = site.siteUrl;
+const BASE_PATH = site.basePath;
+
+const DEFAULT_PARALLELISM = 2;
+
+type BuildResult = 'built' | 'skipped' | 'failed';
 
-function loadProjectMetadata(projectDir: string): ProjectMetadata | null {
-  const metadataPath = path.join(projectDir, 'project.json');
-  if (!fs.existsSync(metadataPath)) {
-    return null;
+const manifest = loadBuildManifest(BUILDS_DIR);
+let aliases: AliasMap = {};
+let series = new Map<string, Series>();
+const results: Record<BuildResult, string[]> = { built: [], skipped: [], failed: [] };
+// Source directory of each project built in this run, by project.json name
+const builtSources = new Map<string, string>();
+let forceRebuild = false;
+let dryRun = false;
+
+/**
+ * The series navigation for a project, or '' if it is not a listed part of one.
+ */
+function seriesNavFor(metadata: ProjectMetadata): string {
+  const entry = metadata.series ? series.get(metadata.series) : undefined;
+  if (!entry || !entry.parts.some(part => part.name === metadata.name)) {
+    return '';
   }
-  return JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
+  return renderSeriesNav(entry, metadata.name, BASE_PATH);
 }
 
 function generateReadme(metadata: ProjectMetadata): string {
   return `${metadata.title}\n${metadata.description}`;
 }
 
-function buildTsxProject(projectName: string, metadata: ProjectMetadata): void {
+async function buildTsxProject(projectName: string): Promise<void> {
   const projectDir = path.join(PROJECTS_DIR, projectName);
   const buildDir = path.join(BUILDS_DIR, projectName);
 
   console.log(`   Building with Vite...`);
 
-  // Create temporary vite config for this project
-  const viteConfig = `
-import { defineConfig } from 'vite'
-import react from '@vitejs/plugin-react'
-
-export default defineConfig({
-  plugins: [react()],
-  base: '/generated-docs/${projectName}/',
-  root: '${projectDir}',
-  build: {
-    outDir: '${buildDir}',
-    emptyOutDir: true,
-  },
-})
-`;
-
-  const tempConfigPath = path.join(process.cwd(), `.vite.config.${projectName}.ts`);
-  fs.writeFileSync(tempConfigPath, viteConfig);
-
-  try {
-    execSync(`npx vite build --config ${tempConfigPath}`, {
-      stdio: 'inherit',
-      cwd: process.cwd(),
-    });
-    fs.unlinkSync(tempConfigPath);
-  } catch (error) {
-    fs.unlinkSync(tempConfigPath);
-    throw error;
-  }
+  await buildTsxWithVite({
+    projectName,
+    projectDir,
+    buildDir,
+    base: `${BASE_PATH}${projectName}/`,
+  });
 
-  console.log(`   ✓ Built to: builds/${projectName}/`);
+  console.log(`   ✓ [${projectName}] Built to: builds/${projectName}/`);
 }
 
-function buildHtmlProject(projectName: string, metadata: ProjectMetadata): void {
-  const projectDir = path.join(PROJECTS_DIR, projectName);
-  const buildDir = path.join(BUILDS_DIR, projectName);
-
-  console.log(`   Copying HTML files...`);
-
-  // Create build directory
-  if (!fs.existsSync(buildDir)) {
-    fs.mkdirSync(buildDir, { recursive: true });
-  }
+/**
+ * Recursively copies a project's files into its build directory, leaving out
+ * project.json, archived revisions and any other top-level files named in `exclude`.
+ */
+function copyProjectFiles(projectDir: string, buildDir: string, exclude: string[] = []): void {
+  const skipped = new Set(['project.json', REVISIONS_DIR, ...exclude]);
 
-  // Copy all files from project directory (recursive for subdirectories)
   function copyDir(srcDir: string, destDir: string): void {
     if (!fs.existsSync(destDir)) {
       fs.mkdirSync(destDir, { recursive: true });
     }
     for (const entry of fs.readdirSync(srcDir, { withFileTypes: true })) {
-      if (entry.name === 'project.json' && srcDir === projectDir) continue;
+      if (srcDir === projectDir && skipped.has(entry.name)) continue;
       const src = path.join(srcDir, entry.name);
       const dest = path.join(destDir, entry.name);
       if (entry.isDirectory()) {
@@ -106,11 +185,92 @@ function buildHtmlProject(projectName: string, metadata: ProjectMetadata): void
     }
   }
   copyDir(projectDir, buildDir);
+}
+
+function buildHtmlProject(projectName: string, metadata: ProjectMetadata): void {
+  const projectDir = path.join(PROJECTS_DIR, projectName);
+  const buildDir = path.join(BUILDS_DIR, projectName);
+
+  console.log(`   Copying HTML files...`);
+
+  // Copy all files from project directory (recursive for subdirectories)
+  copyProjectFiles(projectDir, buildDir);
 
   console.log(`   ✓ Copied to: builds/${projectName}/`);
+
+  if (metadata.vendor) {
+    vendorExternalAssets(projectName, buildDir);
+  }
+}
+
+function vendorExternalAssets(projectName: string, buildDir: string): void {
+  const report = vendorProject(buildDir, loadVendorCache(VENDOR_CACHE_DIR));
+  console.log(`   ✓ Vendored ${report.vendored.length} external asset(s) into builds/${projectName}/vendor/`);
+
+  if (report.missing.length > 0) {
+    console.log(`   ⚠️  ${report.missing.length} external reference(s) not in vendor-cache/:`);
+    for (const ref of report.missing) {
+      console.log(`      ${ref.file}:${ref.line}  ${ref.url}`);
+    }
+  }
+}
+
+function buildMarkdownProject(projectName: string, metadata: ProjectMetadata): void {
+  const projectDir = path.join(PROJECTS_DIR, projectName);
+  const buildDir = path.join(BUILDS_DIR, projectName);
+
+  console.log(`   Rendering Markdown...`);
+
+  const source = fs.readFileSync(path.join(projectDir, 'index.md'), 'utf-8');
+  const html = renderMarkdownPage(source, {
+    title: metadata.title,
+    description: metadata.description,
+  });
+
+  // Images and other assets referenced from the Markdown come along as-is
+  copyProjectFiles(projectDir, buildDir, ['index.md']);
+  fs.writeFileSync(path.join(buildDir, 'index.html'), html);
+
+  console.log(`   ✓ Rendered to: builds/${projectName}/index.html`);
 }
 
-function buildProject(projectName: string): void {
+/**
+ * Builds an archived revision to builds/<name>/v/<n>/ according to the type it
+ * had at the time, then adds the revision banner to its pages.
+ */
+async function buildRevision(
+  projectName: string,
+  metadata: ProjectMetadata,
+  revision: Revision,
+  revisions: Revision[],
+): Promise<void> {
+  const revisionPath = `${projectName}/${REVISION_BUILD_DIR}/${revision.number}/`;
+  const buildDir = path.join(BUILDS_DIR, revisionPath);
+  const { type, title, description } = revision.metadata;
+
+  if (type === 'tsx') {
+    await buildTsxWithVite({
+      projectName: `${projectName} v${revision.number}`,
+      projectDir: revision.dir,
+      buildDir,
+      base: `${BASE_PATH}${revisionPath}`,
+    });
+  } else if (type === 'html') {
+    copyProjectFiles(revision.dir, buildDir, [REVISION_FILENAME]);
+    if (metadata.vendor) {
+      vendorProject(buildDir, loadVendorCache(VENDOR_CACHE_DIR));
+    }
+  } else if (type === 'markdown') {
+    const source = fs.readFileSync(path.join(revision.dir, 'index.md'), 'utf-8');
+    copyProjectFiles(revision.dir, buildDir, ['index.md', REVISION_FILENAME]);
+    fs.writeFileSync(path.join(buildDir, 'index.html'), renderMarkdownPage(source, { title, description }));
+  }
+
+  const banner = renderRevisionBanner(revision, revisions, metadata.title, `${BASE_PATH}${projectName}/`);
+  addRevisionBanner(buildDir, banner);
+}
+
+async function buildProject(projectName: string): Promise<void> {
   console.log(`\n📦 Building: ${projectName}`);
 
   let currentProjectName = projectName;
@@ -133,16 +293,20 @@ function buildProject(projectName: string): void {
     // Rename the directory
     if (fs.existsSync(newProjectDir)) {
       console.log(`   ⚠️  Target directory already exists, skipping rename`);
+    } else if (dryRun) {
+      console.log(`   📝 Would rename directory to: ${metadata.name}`);
+      console.log(`   📝 Would redirect builds/${projectName}/ to: builds/${metadata.name}/`);
+      // Sources stay where they are, so keep hashing projectDir
+      currentProjectName = metadata.name;
     } else {
       fs.renameSync(projectDir, newProjectDir);
       console.log(`   ✓ Renamed directory to: ${metadata.name}`);
 
-      // Clean up old build directory if it exists
-      const oldBuildDir = path.join(BUILDS_DIR, projectName);
-      if (fs.existsSync(oldBuildDir)) {
-        fs.rmSync(oldBuildDir, { recursive: true, force: true });
-        console.log(`   ✓ Cleaned up old build directory`);
-      }
+      // The old build directory is replaced by redirects once everything is built
+      delete manifest.projects[projectName];
+      recordRename(aliases, projectName, metadata.name);
+      saveAliases(ALIASES_PATH, aliases);
+      console.log(`   ✓ Recorded alias in ${ALIASES_FILENAME}: ${projectName} → ${metadata.name}`);
 
       // Update references
       currentProjectName = metadata.name;
@@ -151,6 +315,26 @@ function buildProject(projectName: string): void {
   }
 
   const buildDir = path.join(BUILDS_DIR, currentProjectName);
+  // Part of the output, and changes when other parts of the series do
+  const seriesNav = seriesNavFor(metadata);
+  const inputHash = hashProjectInputs(projectDir, metadata, `${SITE_URL}\0${seriesNav}`);
+
+  if (!forceRebuild && isUpToDate(manifest, currentProjectName, inputHash, buildDir)) {
+    console.log(`   ⏭️  Up to date, skipping`);
+    results.skipped.push(currentProjectName);
+    return;
+  }
+
+  const revisions = listRevisions(projectDir);
+
+  if (dryRun) {
+    console.log(`   📝 Would build (${metadata.type}) to: builds/${currentProjectName}/`);
+    if (revisions.length > 0) {
+      console.log(`   📝 Would build ${revisions.length} archived revision(s) to: builds/${currentProjectName}/${REVISION_BUILD_DIR}/`);
+    }
+    results.built.push(currentProjectName);
+    return;
+  }
 
   // Ensure builds directory exists
   if (!fs.existsSync(buildDir)) {
@@ -158,24 +342,103 @@ function buildProject(projectName: string): void {
   }
 
   // Build based on type
-  if (metadata.type === 'tsx') {
-    buildTsxProject(currentProjectName, metadata);
-  } else if (metadata.type === 'html') {
-    buildHtmlProject(currentProjectName, metadata);
+  try {
+    if (metadata.type === 'tsx') {
+      await buildTsxProject(currentProjectName);
+    } else if (metadata.type === 'html') {
+      buildHtmlProject(currentProjectName, metadata);
+    } else if (metadata.type === 'markdown') {
+      buildMarkdownProject(currentProjectName, metadata);
+    }
+
+    // Rebuilt from scratch, so revisions that were removed do not linger
+    fs.rmSync(path.join(buildDir, REVISION_BUILD_DIR), { recursive: true, force: true });
+    for (const revision of revisions) {
+      await buildRevision(currentProjectName, metadata, revision, revisions);
+    }
+    if (revisions.length > 0) {
+      console.log(`   ✓ Built ${revisions.length} archived revision(s) to: builds/${currentProjectName}/${REVISION_BUILD_DIR}/`);
+    }
+  } catch (error) {
+    if (!(error instanceof TsxBuildError)) throw error;
+    console.error(`\n❌ Build failed: ${currentProjectName}`);
+    console.error(error.format());
+    results.failed.push(currentProjectName);
+    return;
+  }
+
+  if (seriesNav) {
+    const pages = addSeriesNav(buildDir, seriesNav);
+    console.log(`   ✓ Added series navigation to ${pages} page(s)`);
+  }
+
+  // Inserted last, so it sits above the series navigation
+  if (metadata.siteBar !== false) {
+    const pages = addSiteBar(buildDir, renderSiteBar(metadata, BASE_PATH));
+    console.log(`   ✓ Added site bar to ${pages} page(s)`);
+  }
+
+  if (metadata.type !== 'tsx') {
+    const anchors = addHeadingAnchors(buildDir);
+    if (anchors > 0) {
+      console.log(`   ✓ Added ${anchors} heading anchor(s)`);
+    }
   }
 
+  const social = addSocialMetadata(buildDir, metadata, `${SITE_URL}/${currentProjectName}/`);
+  if (social.card) {
+    console.log(`   ✓ Generated preview card: og-image.png`);
+  }
+  console.log(`   ✓ Added ${social.tags} social tag(s) to ${social.pages} page(s)`);
+
   // Generate README.txt
   const readmeContent = generateReadme(metadata);
   const readmePath = path.join(buildDir, 'README.txt');
   fs.writeFileSync(readmePath, readmeContent);
   console.log(`   ✓ Generated README.txt`);
 
+  manifest.projects[currentProjectName] = {
+    inputHash,
+    outputHash: hashBuildOutput(buildDir),
+    builtAt: new Date().toISOString(),
+  };
+  saveBuildManifest(BUILDS_DIR, manifest);
+
   console.log(`✅ Successfully built: ${currentProjectName}`);
+  results.built.push(currentProjectName);
+  builtSources.set(metadata.name, projectDir);
+}
+
+function printSummary(): void {
+  const failed = results.failed.length > 0 ? `, failed ${results.failed.length}` : '';
+  const [built, skipped] = dryRun ? ['Would build', 'would skip'] : ['Built', 'skipped'];
+  console.log(`\n📊 ${built} ${results.built.length}, ${skipped} ${results.skipped.length} (unchanged)${failed}`);
+  results.built.forEach(p => console.log(`   🔨 ${p}`));
+  results.skipped.forEach(p => console.log(`   ⏭️  ${p}`));
+  results.failed.forEach(p => console.log(`   ❌ ${p}`));
+}
+
+function parseParallelism(args: string[]): number {
+  const flag = args.find(arg => arg.startsWith('--parallel='));
+  const raw = flag ? flag.slice('--parallel='.length) : process.env.BUILD_PARALLELISM;
+  if (raw === undefined) {
+    return DEFAULT_PARALLELISM;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    console.error(`❌ Invalid parallelism: ${raw} (expected a positive integer)`);
+    process.exit(1);
+  }
+  return value;
 }
 
 function ensureParentReadme(): void {
-  const content = 'Generated Documents\nInteractive documentation and visualizations generated from code.';
+  const content = `${SITE_NAME}\n${SITE_DESCRIPTION}`;
   if (!fs.existsSync(PARENT_README_PATH)) {
+    if (dryRun) {
+      console.log('📝 Would create parent-README.txt');
+      return;
+    }
     fs.writeFileSync(PARENT_README_PATH, content);
     console.log('✓ Created parent-README.txt');
   }
@@ -189,35 +452,157 @@ if (!fs.existsSync(PROJECTS_DIR)) {
   process.exit(1);
 }
 
+const args = process.argv.slice(2);
+const specificProject = args.find(arg => !arg.startsWith('-'));
+forceRebuild = args.includes('-f') || args.includes('--force');
+dryRun = args.includes('--dry-run');
+const parallelism = parseParallelism(args);
+const strictLinks = args.includes('--strict-links');
+const checkLinks = strictLinks || args.includes('--check-links');
+let a11yThresholds;
+try {
+  a11yThresholds = parseA11yThresholds(args, '--max-a11y-');
+} catch (error) {
+  if (error instanceof A11yThresholdError) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
+const auditA11y = args.includes('--audit-a11y')
+  || a11yThresholds.maxErrors !== undefined
+  || a11yThresholds.maxWarnings !== undefined;
+
+if (dryRun) {
+  console.log('📝 Dry run: nothing will be written\n');
+}
+if (forceRebuild) {
+  console.log('⚡ Force rebuild: ignoring build manifest\n');
+}
+
 ensureParentReadme();
 
-const args = process.argv.slice(2);
-const specificProject = args[0];
+try {
+  aliases = loadAliases(ALIASES_PATH);
+  series = collectSeries(loadAllProjectMetadata(PROJECTS_DIR));
 
-if (specificProject) {
-  // Build specific project
-  const projectPath = path.join(PROJECTS_DIR, specificProject);
-  if (!fs.existsSync(projectPath)) {
-    console.error(`❌ Project not found: ${specificProject}`);
-    process.exit(1);
+  if (specificProject) {
+    // Build specific project
+    const projectPath = path.join(PROJECTS_DIR, specificProject);
+    if (!fs.existsSync(projectPath)) {
+      console.error(`❌ Project not found: ${specificProject}`);
+      process.exit(1);
+    }
+    await buildProject(specificProject);
+  } else {
+    // Build all projects
+    const projects = fs.readdirSync(PROJECTS_DIR).filter(p => {
+      const stat = fs.statSync(path.join(PROJECTS_DIR, p));
+      return stat.isDirectory();
+    });
+
+    if (projects.length === 0) {
+      console.log('📭 No projects found in projects/ directory');
+      process.exit(0);
+    }
+
+    console.log(`Found ${projects.length} project(s) to build:\n`);
+    projects.forEach(p => console.log(`  - ${p}`));
+
+    await mapWithConcurrency(projects, parallelism, buildProject);
+
+    // Forget projects that no longer exist
+    if (!dryRun) {
+      for (const name of Object.keys(manifest.projects)) {
+        if (!fs.existsSync(path.join(PROJECTS_DIR, name))) {
+          delete manifest.projects[name];
+        }
+      }
+      saveBuildManifest(BUILDS_DIR, manifest);
+    }
   }
-  buildProject(specificProject);
-} else {
-  // Build all projects
-  const projects = fs.readdirSync(PROJECTS_DIR).filter(p => {
-    const stat = fs.statSync(path.join(PROJECTS_DIR, p));
-    return stat.isDirectory();
-  });
 
-  if (projects.length === 0) {
-    console.log('📭 No projects found in projects/ directory');
-    process.exit(0);
+  printSummary();
+
+  if (dryRun) {
+    console.log('\n📝 Would regenerate gallery: builds/index.html');
+    console.log('📝 Would regenerate feed and sitemap: builds/feed.xml, builds/sitemap.xml');
+    console.log(`📝 Would regenerate search index: builds/${SEARCH_INDEX_FILENAME}`);
+    if (Object.keys(aliases).length > 0) {
+      console.log(`📝 Would regenerate redirects for ${Object.keys(aliases).length} alias(es)`);
+    }
+    if (checkLinks) {
+      console.log('📝 Link check skipped (nothing was built)');
+    }
+    if (auditA11y) {
+      console.log('📝 Accessibility audit skipped (nothing was built)');
+    }
+  } else {
+    writeGallery(PROJECTS_DIR, BUILDS_DIR);
+    console.log('\n🖼️  Generated gallery: builds/index.html');
+
+    const feed = writeFeeds(PROJECTS_DIR, BUILDS_DIR, SITE_URL);
+    console.log(`📰 Generated feed (${feed.entries} entries) and sitemap: builds/feed.xml, builds/sitemap.xml`);
+    if (feed.buildDated.length > 0) {
+      console.log(`   ⚠️  Dated by their last build (no published/updated date): ${feed.buildDated.join(', ')}`);
+    }
+    if (feed.undated.length > 0) {
+      console.log(`   ⚠️  Not in the feed (no published/updated date): ${feed.undated.join(', ')}`);
+    }
+
+    const search = await writeSearchIndex(PROJECTS_DIR, BUILDS_DIR, builtSources);
+    console.log(`🔎 Generated search index (${search.sections} sections from ${search.projects} projects, ` +
+      `${Math.round(search.bytes / 1024)} KB): builds/${SEARCH_INDEX_FILENAME}`);
+    if (search.rendered.length > 0) {
+      console.log(`   Rendered for search: ${search.rendered.join(', ')}`);
+    }
+    search.failed.forEach(f => console.log(`   ⚠️  Could not render ${f.name} (only its title and description are searchable): ${f.reason}`));
+
+    const titles = new Map(loadAllProjectMetadata(PROJECTS_DIR).map(project => [project.name, project.title]));
+    const redirects = writeRedirects(aliases, titles, BUILDS_DIR, BASE_PATH, SITE_URL);
+    if (redirects.written.length > 0) {
+      console.log(`↪️  Generated redirects for ${redirects.written.length} old slug(s):`);
+      redirects.written.forEach(r => console.log(`   builds/${r.from}/ → ${r.to} (${r.pages} page(s))`));
+    }
+    redirects.skipped.forEach(r => console.log(`   ⚠️  No redirect for ${r.from}: ${r.reason}`));
   }
 
-  console.log(`Found ${projects.length} project(s) to build:\n`);
-  projects.forEach(p => console.log(`  - ${p}`));
+  if (checkLinks && !dryRun) {
+    const checked = [...results.built, ...results.skipped];
+    const linkIssues = checked.flatMap(p => checkProjectLinks(BUILDS_DIR, p, BASE_PATH));
+    if (reportLinkIssues(linkIssues) === 0) {
+      console.log(`\n🔗 No broken links in ${checked.length} project(s)`);
+    } else if (strictLinks) {
+      console.error(`\n❌ ${linkIssues.length} broken reference(s) (--strict-links)\n`);
+      process.exit(1);
+    } else {
+      console.log(`\n⚠️  ${linkIssues.length} broken reference(s)`);
+    }
+  }
+
+  if (auditA11y && !dryRun) {
+    const report = writeA11yReport(BUILDS_DIR, [...results.built, ...results.skipped]);
+    printA11ySummary(report);
+    console.log(`📄 Report: builds/${A11Y_REPORT_FILENAME}`);
+    const failures = checkA11yThresholds(report, a11yThresholds);
+    if (failures.length > 0) {
+      failures.forEach(failure => console.error(`❌ ${failure}`));
+      console.log();
+      process.exit(1);
+    }
+  }
+} catch (error) {
+  if (error instanceof MetadataValidationError || error instanceof AliasMapError
+    || error instanceof SeriesError || error instanceof VendorCacheError) {
+    console.error(`\n❌ ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
 
-  projects.forEach(buildProject);
+if (results.failed.length > 0) {
+  console.error(`\n❌ Build finished with ${results.failed.length} failure(s)\n`);
+  process.exit(1);
 }
 
-console.log('\n✨ Build complete!\n');
+console.log(dryRun ? '\n✨ Dry run complete, nothing was written\n' : '\n✨ Build complete!\n');
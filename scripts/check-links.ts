@@ -0,0 +1,58 @@
+#!/usr/bin/env tsx
+/**
+ * Broken Link Checker
+ * Reports relative links, anchors, CSS url() references and base-path URLs in
+ * builds/ that do not resolve
+ *
+ * Usage:
+ *   npm run check-links                # Check every built project
+ *   npm run check-links project-name   # Check a specific project
+ *
+ * Exits non-zero when any broken reference is found.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { checkProjectLinks, reportLinkIssues } from './lib/link-check.ts';
+import { loadSiteConfig, SiteConfigError, type SiteConfig } from './lib/site.ts';
+
+const BUILDS_DIR = path.join(process.cwd(), 'builds');
+
+let site: SiteConfig;
+try {
+  site = loadSiteConfig();
+} catch (error) {
+  if (!(error instanceof SiteConfigError)) throw error;
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+const BASE_PATH = site.basePath;
+
+console.log('🔗 Link Checker\n');
+
+if (!fs.existsSync(BUILDS_DIR)) {
+  console.error("❌ Builds directory not found. Run 'npm run build-all' first.");
+  process.exit(1);
+}
+
+const specificProject = process.argv.slice(2).find(arg => !arg.startsWith('-'));
+const projects = specificProject
+  ? [specificProject]
+  : fs.readdirSync(BUILDS_DIR, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name);
+
+if (specificProject && !fs.existsSync(path.join(BUILDS_DIR, specificProject))) {
+  console.error(`❌ Build not found: builds/${specificProject}/`);
+  process.exit(1);
+}
+
+const issues = projects.flatMap(project => checkProjectLinks(BUILDS_DIR, project, BASE_PATH));
+reportLinkIssues(issues);
+
+if (issues.length > 0) {
+  console.error(`\n❌ ${issues.length} broken reference(s) in ${new Set(issues.map(i => i.project)).size} project(s)\n`);
+  process.exit(1);
+}
+
+console.log(`✨ No broken references in ${projects.length} project(s)\n`);
@@ -0,0 +1,92 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { promisify } from 'util';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { writeRedirects } from './lib/aliases.ts';
+
+const SCRIPTS_DIR = path.dirname(fileURLToPath(import.meta.url));
+const TSX = path.join(SCRIPTS_DIR, '..', 'node_modules', '.bin', 'tsx');
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-projects-'));
+  fs.writeFileSync(path.join(dir, 'site.config.json'), JSON.stringify({
+    siteUrl: 'https://example.com/docs',
+    deploy: {
+      target: 'local',
+      sftp: { host: 'web', user: 'deploy', remoteDir: '/public_html/docs' },
+      localDir: 'staging',
+    },
+  }));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Writes builds/<name>/ with the given files (path → content).
+ */
+function writeBuild(name: string, files: Record<string, string>): void {
+  for (const [file, content] of Object.entries(files)) {
+    const fullPath = path.join(dir, 'builds', name, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  }
+}
+
+/**
+ * Runs deploy-all in the temp directory, without the environment overrides of
+ * the machine running the tests.
+ */
+async function deployAll(...args: string[]): Promise<string> {
+  const env = Object.fromEntries(Object.entries(process.env)
+    .filter(([name]) => !name.startsWith('DEPLOY_') && name !== 'SITE_URL'));
+  const { stdout } = await promisify(execFile)(TSX, [path.join(SCRIPTS_DIR, 'deploy-projects.ts'), ...args], { cwd: dir, env });
+  return stdout;
+}
+
+describe('deploy-all', () => {
+  it('deploys the redirect directories of renamed projects', async () => {
+    writeBuild('new-name', { 'index.html': '<html></html>', 'README.txt': 'New Name' });
+    writeRedirects({ 'old-name': 'new-name' }, new Map([['new-name', 'New Name']]),
+      path.join(dir, 'builds'), '/docs/', 'https://example.com/docs');
+
+    await deployAll();
+
+    const staged = path.join(dir, 'staging', 'old-name');
+    expect(fs.readFileSync(path.join(staged, 'index.html'), 'utf-8')).toContain('url=/docs/new-name/');
+    expect(fs.existsSync(path.join(staged, 'README.txt'))).toBe(true);
+    expect(fs.existsSync(path.join(staged, '.deploy-manifest.json'))).toBe(true);
+  }, 30_000);
+
+  it('keeps files removed from the build, and their manifest entries, until --prune', async () => {
+    writeBuild('project', { 'index.html': 'v1', 'old.html': 'old', 'README.txt': 'Project' });
+    await deployAll();
+    fs.rmSync(path.join(dir, 'builds', 'project', 'old.html'));
+    fs.writeFileSync(path.join(dir, 'builds', 'project', 'index.html'), 'v2');
+
+    const staged = path.join(dir, 'staging', 'project');
+    const deployedFiles = () =>
+      Object.keys(JSON.parse(fs.readFileSync(path.join(staged, '.deploy-manifest.json'), 'utf-8')).files);
+
+    const kept = await deployAll();
+    expect(kept).toContain('Plan: 0 to add, 1 to update, 1 stale (kept, pass --prune to delete), 1 unchanged');
+    expect(fs.readFileSync(path.join(staged, 'index.html'), 'utf-8')).toBe('v2');
+    expect(fs.existsSync(path.join(staged, 'old.html'))).toBe(true);
+    expect(deployedFiles()).toContain('old.html');
+
+    const dryRun = await deployAll('--prune', '--dry-run');
+    expect(dryRun).toContain('Would upload 0 and delete 1 file(s)');
+    expect(fs.existsSync(path.join(staged, 'old.html'))).toBe(true);
+
+    const pruned = await deployAll('--prune');
+    expect(pruned).toContain('Plan: 0 to add, 0 to update, 1 to delete, 2 unchanged');
+    expect(fs.existsSync(path.join(staged, 'old.html'))).toBe(false);
+    expect(deployedFiles()).toEqual(['README.txt', 'index.html']);
+  }, 30_000);
+});
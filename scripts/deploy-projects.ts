@@ -0,0 +1,224 @@
+#!/usr/bin/env tsx
+/**
+ * Multi-Project Deployment Script
+ * Deploys all built projects or a specific project to the configured target
+ *
+ * Usage:
+ *   npm run deploy-all                          # Deploy all built projects
+ *   npm run deploy-all -- project-name          # Deploy specific project
+ *   npm run deploy-all -- --target=local        # Deploy to a local directory
+ *   npm run deploy-all -- --prune               # Also delete files removed from the build
+ *   npm run deploy-all -- --force               # Re-upload every file
+ *   npm run deploy-all -- --dry-run             # Print the plan, upload nothing
+ *
+ * Deploys are incremental: each deployed project has a .deploy-manifest.json
+ * with the hash of every uploaded file, and only new or changed files are sent.
+ * Files that are no longer in the build are listed but left in place unless
+ * --prune is given. --dry-run still reads the manifests on the target to work
+ * out the plan, but writes nothing to it.
+ *
+ * Targets (--target=, else deploy.target in site.config.json):
+ *   sftp   Upload to the server in deploy.sftp (user@host:remoteDir)
+ *   local  Copy into deploy.localDir (deploy-staging/)
+ *
+ * Deploying to the server purges the Cloudflare cache when CF_ZONE_ID and
+ * CF_API_TOKEN are set.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { purgeCloudflareCache } from './lib/deploy/cloudflare.ts';
+import {
+  createLocalManifest,
+  planDeploy,
+  readRemoteManifest,
+  writeRemoteManifest,
+  type DeployPlan,
+} from './lib/deploy/manifest.ts';
+import { createDeployTarget, type DeployTarget } from './lib/deploy/target.ts';
+import { loadSiteConfig, SITE_FILES, SiteConfigError, type SiteConfig } from './lib/site.ts';
+
+const BUILDS_DIR = path.join(process.cwd(), 'builds');
+const PARENT_README_PATH = path.join(process.cwd(), 'parent-README.txt');
+
+let site: SiteConfig;
+try {
+  site = loadSiteConfig();
+} catch (error) {
+  if (!(error instanceof SiteConfigError)) throw error;
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+const SITE_URL = site.siteUrl;
+
+interface DeployOptions {
+  prune: boolean;
+  force: boolean;
+  dryRun: boolean;
+}
+
+function printPlan(plan: DeployPlan, prune: boolean): void {
+  const deleteLabel = prune ? 'to delete' : 'stale (kept, pass --prune to delete)';
+  console.log(`   Plan: ${plan.add.length} to add, ${plan.update.length} to update, ` +
+    `${plan.delete.length} ${deleteLabel}, ${plan.unchanged.length} unchanged`);
+  plan.add.forEach(file => console.log(`     + ${file}`));
+  plan.update.forEach(file => console.log(`     ~ ${file}`));
+  plan.delete.forEach(file => console.log(`     - ${file}`));
+  if (!plan.hasRemoteManifest) {
+    console.log(`   (no previous deploy manifest on the target, uploading everything)`);
+  }
+}
+
+async function deployProject(target: DeployTarget, projectName: string, options: DeployOptions): Promise<void> {
+  const buildDir = path.join(BUILDS_DIR, projectName);
+
+  console.log(`\n▶ Deploying: ${projectName}`);
+
+  if (!fs.existsSync(buildDir)) {
+    throw new Error(`Build not found at builds/${projectName}`);
+  }
+  if (!fs.existsSync(path.join(buildDir, 'README.txt'))) {
+    throw new Error(`README.txt not found in builds/${projectName}`);
+  }
+
+  console.log(`   Target: ${target.location}/${projectName}/`);
+  console.log(`   URL: ${SITE_URL}/${projectName}/`);
+
+  const local = createLocalManifest(buildDir);
+  const remote = await readRemoteManifest(target, projectName);
+  const plan = planDeploy(local, remote, options.force);
+  printPlan(plan, options.prune);
+
+  const uploads = [...plan.add, ...plan.update];
+  const deletes = options.prune ? plan.delete : [];
+  if (uploads.length === 0 && deletes.length === 0) {
+    console.log(`   ✓ Already up to date`);
+    return;
+  }
+  if (options.dryRun) {
+    console.log(`   📝 Would upload ${uploads.length} and delete ${deletes.length} file(s)`);
+    return;
+  }
+
+  await target.ensureDir(projectName);
+  if (uploads.length > 0) {
+    console.log(`   Uploading ${uploads.length} file(s)...`);
+    await target.uploadFiles(uploads.map(file => ({
+      localFile: path.join(buildDir, file),
+      relativePath: `${projectName}/${file}`,
+    })));
+  }
+  if (deletes.length > 0) {
+    console.log(`   Deleting ${deletes.length} file(s)...`);
+    await target.deleteFiles(deletes.map(file => `${projectName}/${file}`));
+  }
+
+  // Kept stale files stay in the manifest so a later --prune still removes them
+  const keptFiles = options.prune ? {} : Object.fromEntries(plan.delete.map(file => [file, remote!.files[file]]));
+  await writeRemoteManifest(target, projectName, { ...local, files: { ...keptFiles, ...local.files } });
+
+  console.log(`   ✓ Deployed successfully`);
+  console.log(`     ${SITE_URL}/${projectName}/`);
+}
+
+async function deploySiteFiles(target: DeployTarget, dryRun: boolean): Promise<void> {
+  if (dryRun) {
+    const siteFiles = [PARENT_README_PATH, ...SITE_FILES.map(file => path.join(BUILDS_DIR, file))]
+      .filter(file => fs.existsSync(file));
+    console.log(`📝 Would upload site files: ${siteFiles.map(file => path.basename(file)).join(', ') || '(none)'}`);
+    return;
+  }
+
+  console.log('Setting up parent directory...');
+  await target.ensureDir('');
+
+  if (fs.existsSync(PARENT_README_PATH)) {
+    console.log('Uploading parent README...');
+    await target.uploadFile(PARENT_README_PATH, 'README.txt');
+  }
+
+  const siteFiles = SITE_FILES.filter(file => fs.existsSync(path.join(BUILDS_DIR, file)));
+  if (siteFiles.length > 0) {
+    console.log(`Uploading ${siteFiles.join(', ')}...`);
+    for (const file of siteFiles) {
+      await target.uploadFile(path.join(BUILDS_DIR, file), file);
+    }
+  }
+}
+
+function listBuiltProjects(): string[] {
+  // Only directories are projects (builds/index.html is the gallery)
+  return fs.readdirSync(BUILDS_DIR, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort();
+}
+
+// Main execution
+console.log('=== Multi-Project Deployment System ===\n');
+
+if (!fs.existsSync(BUILDS_DIR)) {
+  console.error("❌ Builds directory not found. Run 'npm run build-all' first.");
+  process.exit(1);
+}
+
+const args = process.argv.slice(2);
+const targetFlag = args.find(arg => arg.startsWith('--target='));
+const specificProject = args.find(arg => !arg.startsWith('-'));
+const options: DeployOptions = {
+  prune: args.includes('--prune'),
+  force: args.includes('-f') || args.includes('--force'),
+  dryRun: args.includes('--dry-run'),
+};
+
+let target: DeployTarget;
+try {
+  target = createDeployTarget(targetFlag?.slice('--target='.length) || site.deploy.target, site.deploy);
+} catch (error) {
+  console.error(`❌ ${(error as Error).message}`);
+  process.exit(1);
+}
+
+console.log(`Target: ${target.name} (${target.location})\n`);
+if (options.dryRun) {
+  console.log('📝 Dry run: nothing will be uploaded or deleted\n');
+}
+
+try {
+  await deploySiteFiles(target, options.dryRun);
+
+  if (specificProject) {
+    await deployProject(target, specificProject, options);
+  } else {
+    const projects = listBuiltProjects();
+    if (projects.length === 0) {
+      console.error('❌ No built projects found in builds/');
+      process.exit(1);
+    }
+
+    console.log(`Found ${projects.length} project(s) to deploy:\n`);
+    projects.forEach(p => console.log(`  - ${p}`));
+
+    for (const project of projects) {
+      await deployProject(target, project, options);
+    }
+  }
+} catch (error) {
+  console.error(`\n❌ Deploy failed: ${(error as Error).message}`);
+  process.exit(1);
+}
+
+if (target.purgesCdn && options.dryRun) {
+  console.log('\n📝 Would purge the Cloudflare cache');
+} else if (target.purgesCdn) {
+  const purge = await purgeCloudflareCache();
+  if (purge === 'purged') {
+    console.log('\n✓ Cloudflare cache purged successfully');
+  } else if (purge === 'failed') {
+    console.log('\n⚠️  Cloudflare cache purge failed');
+  } else {
+    console.log('\n⚠️  Cloudflare cache purge skipped (set CF_ZONE_ID and CF_API_TOKEN)');
+  }
+}
+
+console.log(options.dryRun ? '\n=== Dry Run Complete ===\n' : '\n=== Deployment Complete! ===\n');
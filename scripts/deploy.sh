@@ -2,10 +2,17 @@
 # One-Command Publishing System
 # Automatically imports, builds, and deploys all projects
 #
-# Usage: npm run publish
+# Usage:
+#   npm run deploy                # Import, build, deploy, commit and push
+#   npm run deploy -- --dry-run   # Show what each step would do, change nothing
 
 set -e
 
+DRY_RUN=""
+if [ "$1" = "--dry-run" ]; then
+    DRY_RUN="--dry-run"
+fi
+
 GREEN='\033[0;32m'
 BLUE='\033[0;34m'
 YELLOW='\033[1;33m'
@@ -16,10 +23,18 @@ echo -e "${GREEN}║   🚀 ONE-COMMAND PUBLISH SYSTEM 🚀   ║${NC}"
 echo -e "${GREEN}╔════════════════════════════════════════╗${NC}"
 echo ""
 
+if [ -n "$DRY_RUN" ]; then
+    echo -e "${YELLOW}📝 Dry run: nothing will be written, uploaded or committed${NC}\n"
+fi
+
+# Public URL from site.config.json; stops here if the config is invalid
+SITE_URL=$(npm run --silent site-config -- --get=siteUrl)
+
 # Step 1: Check for files to import
-if [ -d "import" ] && [ "$(ls -A import 2>/dev/null | grep -E '\.(tsx|html)$')" ]; then
+# (single files, bundle directories or .zip bundles)
+if [ -d "import" ] && [ "$(ls -A import 2>/dev/null | grep -vE '^\.')" ]; then
     echo -e "${BLUE}📥 Step 1: Importing new projects...${NC}\n"
-    npm run import
+    npm run import -- $DRY_RUN
     echo ""
 else
     echo -e "${YELLOW}📭 Step 1: No new files to import (skipping)${NC}\n"
@@ -27,16 +42,32 @@ fi
 
 # Step 2: Build all projects
 echo -e "${BLUE}🔨 Step 2: Building all projects...${NC}\n"
-npm run build-all
+npm run build-all -- $DRY_RUN
 echo ""
 
 # Step 3: Deploy all projects
 echo -e "${BLUE}🚀 Step 3: Deploying to server...${NC}\n"
-npm run deploy-all
+if [ -n "$DRY_RUN" ]; then
+    # The dry-run build above wrote nothing, so this plan compares the target
+    # with the builds/ already on disk
+    echo -e "${YELLOW}📝 Upload plan is based on the last build in builds/, not on the projects the build step would rebuild${NC}\n"
+fi
+npm run deploy-all -- $DRY_RUN
 echo ""
 
 # Step 4: Git commit and push (if there are changes)
-if [ -n "$(git status --porcelain)" ]; then
+if [ -n "$DRY_RUN" ]; then
+    echo -e "${BLUE}📝 Step 4: Would commit and push:${NC}\n"
+    if [ -n "$(git status --porcelain)" ]; then
+        git status --short
+    else
+        echo "   (no uncommitted changes yet)"
+    fi
+    echo "   ...plus the projects/ changes from the import step above"
+    echo ""
+    echo -e "${GREEN}✨ Dry run complete, nothing was changed${NC}"
+    exit 0
+elif [ -n "$(git status --porcelain)" ]; then
     echo -e "${BLUE}📝 Step 4: Committing changes to git...${NC}\n"
     git add -A
 
@@ -68,5 +99,5 @@ echo -e "${GREEN}╔════════════════════
 echo -e "${GREEN}║        ✨ ALL DONE! ✨                ║${NC}"
 echo -e "${GREEN}╚════════════════════════════════════════╝${NC}"
 echo ""
-echo -e "Your projects are live at: ${BLUE}https://dosmenu.com/generated-docs/${NC}"
+echo -e "Your projects are live at: ${BLUE}${SITE_URL}/${NC}"
 echo ""
@@ -0,0 +1,377 @@
+#!/usr/bin/env tsx
+/**
+ * Multi-Project Dev Server
+ * Serves every project from projects/ under the same <base path><name>/ paths
+ * it is deployed to (the base path is that of siteUrl in site.config.json), with
+ * the gallery at the base path
+ *
+ * Usage:
+ *   npm run dev-all                  # http://localhost:5173/generated-docs/
+ *   npm run dev-all -- --port=3000   # Listen on another port (or DEV_PORT)
+ *
+ * For .tsx projects: Vite dev server with HMR, started on first request
+ * For .html projects: Served as static files, reloaded when a file changes
+ * For .md projects: index.md rendered on every request, reloaded on change
+ * Gallery: Rendered from project.json files, reloaded when any of them change.
+ *   Its search uses builds/search-index.json from the last build-all
+ *
+ * Projects are served under their project.json name, i.e. the path they will
+ * have once build-all has renamed their directory. Old slugs listed in
+ * project-aliases.json redirect to the current one.
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import react from '@vitejs/plugin-react';
+import { createServer, type ViteDevServer } from 'vite';
+import { AliasMapError, ALIASES_FILENAME, loadAliases } from './lib/aliases.ts';
+import { renderGallery } from './lib/gallery.ts';
+import { createLiveReloadHub, GALLERY_CHANNEL, injectLiveReload, LIVE_RELOAD_PATH } from './lib/live-reload.ts';
+import { renderMarkdownPage } from './lib/markdown.ts';
+import { loadProjectMetadata, MetadataValidationError, type ProjectMetadata } from './lib/metadata.ts';
+import { SEARCH_INDEX_FILENAME } from './lib/search.ts';
+import { SeriesError } from './lib/series.ts';
+import { loadSiteConfig, SiteConfigError, type SiteConfig } from './lib/site.ts';
+import { createPostcssConfig, TailwindThemeError, THEME_FILENAME } from './lib/tailwind.ts';
+
+const PROJECTS_DIR = path.join(process.cwd(), 'projects');
+const BUILDS_DIR = path.join(process.cwd(), 'builds');
+const VITE_CACHE_DIR = path.join(process.cwd(), 'node_modules', '.vite-dev');
+const ALIASES_PATH = path.join(process.cwd(), ALIASES_FILENAME);
+
+let site: SiteConfig;
+try {
+  site = loadSiteConfig();
+} catch (error) {
+  if (!(error instanceof SiteConfigError)) throw error;
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+const BASE_PATH = site.basePath;
+
+const DEFAULT_PORT = 5173;
+const RELOAD_DEBOUNCE_MS = 100;
+
+// Never served: metadata, and Markdown sources that are rendered instead
+const HIDDEN_FILES = ['project.json'];
+const HIDDEN_MARKDOWN_FILES = ['index.md'];
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.md': 'text/markdown; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.pdf': 'application/pdf',
+};
+
+interface DevProject {
+  dir: string;
+  metadata: ProjectMetadata;
+}
+
+let projectCache: Map<string, DevProject> | null = null;
+const viteServers = new Map<string, Promise<ViteDevServer>>();
+const pendingReloads = new Map<string, NodeJS.Timeout>();
+const liveReload = createLiveReloadHub();
+
+/**
+ * Projects keyed by their project.json name. Cached until a project.json or a
+ * top-level directory changes.
+ */
+function loadProjects(): Map<string, DevProject> {
+  if (projectCache) {
+    return projectCache;
+  }
+
+  const projects = new Map<string, DevProject>();
+  for (const entry of fs.readdirSync(PROJECTS_DIR, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const dir = path.join(PROJECTS_DIR, entry.name);
+    const metadata = loadProjectMetadata(dir);
+    if (metadata) {
+      projects.set(metadata.name, { dir, metadata });
+    }
+  }
+  projectCache = projects;
+  return projects;
+}
+
+function getViteServer(project: DevProject, httpServer: http.Server): Promise<ViteDevServer> {
+  const { name } = project.metadata;
+  let server = viteServers.get(name);
+  if (!server) {
+    console.log(`⚡ Starting Vite for ${name}`);
+    server = createPostcssConfig(project.dir).then(postcss => createServer({
+      configFile: false,
+      root: project.dir,
+      base: `${BASE_PATH}${name}/`,
+      plugins: [react()],
+      css: { postcss },
+      // Separate dependency caches, so projects never re-optimize each other's deps
+      cacheDir: path.join(VITE_CACHE_DIR, name),
+      appType: 'mpa',
+      clearScreen: false,
+      server: {
+        middlewareMode: true,
+        // HMR websockets share the main server, told apart by their base path
+        hmr: { server: httpServer },
+      },
+    }));
+    // An invalid tailwind.theme.json is retried on the next request
+    server.catch(() => viteServers.delete(name));
+    viteServers.set(name, server);
+  }
+  return server;
+}
+
+function sendText(res: http.ServerResponse, status: number, text: string): void {
+  res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end(text);
+}
+
+function sendHtml(res: http.ServerResponse, html: string): void {
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(html);
+}
+
+function redirect(res: http.ServerResponse, location: string): void {
+  res.writeHead(302, { Location: location });
+  res.end();
+}
+
+/**
+ * Serves a file from an html or markdown project, injecting the live reload
+ * client into HTML pages.
+ */
+function serveProjectFile(project: DevProject, relativePath: string, res: http.ServerResponse): void {
+  const { name, type } = project.metadata;
+  const isIndex = relativePath === '' || relativePath === 'index.html';
+
+  if (type === 'markdown' && isIndex) {
+    const source = fs.readFileSync(path.join(project.dir, 'index.md'), 'utf-8');
+    const html = renderMarkdownPage(source, { title: project.metadata.title, description: project.metadata.description });
+    sendHtml(res, injectLiveReload(html, name));
+    return;
+  }
+
+  const hidden = type === 'markdown' ? [...HIDDEN_FILES, ...HIDDEN_MARKDOWN_FILES] : HIDDEN_FILES;
+  let file = path.resolve(project.dir, relativePath);
+  if (!file.startsWith(project.dir + path.sep) && file !== project.dir) {
+    sendText(res, 404, 'Not found');
+    return;
+  }
+  if (fs.existsSync(file) && fs.statSync(file).isDirectory()) {
+    file = path.join(file, 'index.html');
+  }
+  if (hidden.includes(path.relative(project.dir, file)) || !fs.existsSync(file)) {
+    sendText(res, 404, 'Not found');
+    return;
+  }
+
+  const ext = path.extname(file).toLowerCase();
+  if (ext === '.html' || ext === '.htm') {
+    sendHtml(res, injectLiveReload(fs.readFileSync(file, 'utf-8'), name));
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': MIME_TYPES[ext] ?? 'application/octet-stream', 'Cache-Control': 'no-store' });
+  fs.createReadStream(file).pipe(res);
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse, httpServer: http.Server): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const pathname = decodeURIComponent(url.pathname);
+
+  if (pathname === LIVE_RELOAD_PATH) {
+    liveReload.handle(req, res);
+    return;
+  }
+  if (pathname === BASE_PATH || pathname === `${BASE_PATH}index.html`) {
+    const gallery = renderGallery([...loadProjects().values()].map(project => project.metadata));
+    sendHtml(res, injectLiveReload(gallery, GALLERY_CHANNEL));
+    return;
+  }
+  if (pathname === '/' || `${pathname}/` === BASE_PATH) {
+    redirect(res, BASE_PATH);
+    return;
+  }
+  if (pathname === `${BASE_PATH}${SEARCH_INDEX_FILENAME}`) {
+    const index = path.join(BUILDS_DIR, SEARCH_INDEX_FILENAME);
+    if (!fs.existsSync(index)) {
+      sendText(res, 404, "No search index yet, run 'npm run build-all'");
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+    fs.createReadStream(index).pipe(res);
+    return;
+  }
+  if (!pathname.startsWith(BASE_PATH)) {
+    sendText(res, 404, 'Not found');
+    return;
+  }
+
+  const [name, ...rest] = pathname.slice(BASE_PATH.length).split('/');
+  const project = loadProjects().get(name);
+  const alias = project ? undefined : loadAliases(ALIASES_PATH)[name];
+  if (alias) {
+    redirect(res, `${BASE_PATH}${alias}/${rest.join('/')}${url.search}`);
+    return;
+  }
+  if (!project) {
+    sendText(res, 404, `No project named "${name}"`);
+    return;
+  }
+  if (rest.length === 0) {
+    redirect(res, `${BASE_PATH}${name}/${url.search}`);
+    return;
+  }
+
+  if (project.metadata.type === 'tsx') {
+    const vite = await getViteServer(project, httpServer);
+    vite.middlewares(req, res, () => sendText(res, 404, 'Not found'));
+  } else {
+    serveProjectFile(project, rest.join('/'), res);
+  }
+}
+
+/**
+ * Reloads pages affected by a change under projects/. Vite handles tsx
+ * sources itself, so only metadata changes matter for those.
+ */
+function handleProjectChange(relativeFile: string): void {
+  const [dirName, ...rest] = relativeFile.split(path.sep);
+  const isMetadata = rest.length === 0 || rest.join('/') === 'project.json';
+
+  if (isMetadata) {
+    projectCache = null;
+    scheduleReload(GALLERY_CHANNEL);
+  }
+
+  let projects: Map<string, DevProject>;
+  try {
+    projects = loadProjects();
+  } catch {
+    return;   // Invalid project.json: reported on the next request
+  }
+  const project = [...projects.values()].find(candidate => path.basename(candidate.dir) === dirName);
+
+  // Tailwind's config is fixed when Vite starts, so a theme change restarts it
+  if (project && project.metadata.type === 'tsx' && rest.join('/') === THEME_FILENAME) {
+    const server = viteServers.get(project.metadata.name);
+    viteServers.delete(project.metadata.name);
+    server?.then(vite => vite.close(), () => {});
+    scheduleReload(project.metadata.name);
+    return;
+  }
+  if (project && (isMetadata || project.metadata.type !== 'tsx')) {
+    scheduleReload(project.metadata.name);
+  }
+}
+
+function scheduleReload(channel: string): void {
+  clearTimeout(pendingReloads.get(channel));
+  pendingReloads.set(channel, setTimeout(() => {
+    pendingReloads.delete(channel);
+    liveReload.notify(channel);
+  }, RELOAD_DEBOUNCE_MS));
+}
+
+function parsePort(args: string[]): number {
+  const flag = args.find(arg => arg.startsWith('--port='));
+  const raw = flag ? flag.slice('--port='.length) : process.env.DEV_PORT;
+  if (raw === undefined) {
+    return DEFAULT_PORT;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1 || value > 65535) {
+    console.error(`❌ Invalid port: ${raw}`);
+    process.exit(1);
+  }
+  return value;
+}
+
+// Main execution
+console.log('🚀 Multi-Project Dev Server\n');
+
+if (!fs.existsSync(PROJECTS_DIR)) {
+  console.error('❌ Projects directory not found!');
+  process.exit(1);
+}
+
+/**
+ * Known problems in the projects are shown by message alone; anything else
+ * with its stack.
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof MetadataValidationError || error instanceof AliasMapError
+    || error instanceof TailwindThemeError || error instanceof SeriesError
+    ? error.message
+    : (error as Error).stack ?? String(error);
+}
+
+const port = parsePort(process.argv.slice(2));
+
+const httpServer = http.createServer((req, res) => {
+  handleRequest(req, res, httpServer).catch(error => {
+    const message = errorMessage(error);
+    console.error(`❌ ${req.url}: ${message}`);
+    if (!res.headersSent) {
+      sendText(res, 500, message);
+    } else {
+      res.end();
+    }
+  });
+});
+
+const watcher = fs.watch(PROJECTS_DIR, { recursive: true }, (_event, filename) => {
+  if (filename) handleProjectChange(filename.toString());
+});
+
+async function shutdown(): Promise<void> {
+  watcher.close();
+  liveReload.close();
+  for (const server of viteServers.values()) {
+    await (await server).close();
+  }
+  httpServer.close();
+  process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+httpServer.on('error', error => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
+
+httpServer.listen(port, () => {
+  try {
+    const projects = [...loadProjects().values()].sort((a, b) => a.metadata.name.localeCompare(b.metadata.name));
+    console.log(`Serving ${projects.length} project(s):\n`);
+    for (const { metadata } of projects) {
+      console.log(`  - ${BASE_PATH}${metadata.name}/  (${metadata.type})`);
+    }
+  } catch (error) {
+    // Keep serving: every request reports the problem until it is fixed
+    console.error(`❌ ${errorMessage(error)}`);
+  }
+  console.log(`\n🖼️  Gallery: http://localhost:${port}${BASE_PATH}\n`);
+});
@@ -3,24 +3,85 @@
  * Smart Import Processor
  * Automatically processes files from import/ directory into proper project structure
  *
- * Usage: npm run import
+ * Usage:
+ *   npm run import                 # Import everything in import/
+ *   npm run import -- --dry-run    # Show what would be imported, change nothing
+ *   npm run import -- --on-collision=update|new|skip
  *
- * Expected input: import/project-name.tsx or import/project-name.html
- * Output: projects/project-name/index.tsx (or .html) + project.json
+ * Expected input: import/project-name.tsx, .html or .md
+ *   or a bundle: import/project-name/ or import/project-name.zip containing an
+ *   entry file (index.tsx / index.html / index.md, or the only top-level file)
+ *   plus any images, sibling modules or data files it needs
+ * Output: projects/project-name/index.tsx (or .html / .md) + project.json,
+ *   with bundled files copied alongside in their original layout
+ *
+ * When the project already exists with different content, nothing happens unless
+ * a strategy is chosen with --on-collision= (or IMPORT_ON_COLLISION), or per file
+ * with a sidecar such as import/project-name.tsx.import.json containing
+ * { "onCollision": "new" }. "update" archives the current version as a revision
+ * in projects/project-name/revisions/<n>/ first; "new" imports as project-name-2.
+ * Re-importing identical content is a no-op.
+ *
+ * .tsx sources are parsed before anything is created: main.tsx renders the
+ * default export, or else the exported component (App if there are several),
+ * and an import fails if the code uses npm packages missing from package.json.
+ *
+ * With --dry-run nothing in import/ or projects/ is touched (.zip bundles are
+ * still unpacked into a temporary directory to find their entry file).
+ *
+ * A .zip that cannot be unpacked is reported and left in import/; the other
+ * files are still imported, and the run exits non-zero at the end.
  */
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import { BundleError, detectEntry, extractZip, listBundleFiles } from './lib/bundle.ts';
+import {
+  COLLISION_STRATEGIES,
+  ImportSidecarError,
+  isCollisionStrategy,
+  loadImportSidecar,
+  matchesProject,
+  nextFreeSlug,
+  SIDECAR_SUFFIX,
+  sidecarPath,
+  type CollisionStrategy,
+} from './lib/import-collision.ts';
+import { extractMarkdownHeading, extractMarkdownParagraph, parseFrontMatter } from './lib/markdown.ts';
+import {
+  loadProjectMetadata,
+  MetadataValidationError,
+  today,
+  validateProjectMetadata,
+  writeProjectMetadata,
+  type ProjectMetadata,
+  type ProjectType,
+} from './lib/metadata.ts';
+import { archiveRevision, nextRevisionNumber, REVISIONS_DIR } from './lib/revisions.ts';
+import {
+  analyzeTsxProject,
+  isGeneratedMainTsx,
+  renderMainTsx,
+  findMissingPackages,
+  TsxAnalysisError,
+  type ComponentExport,
+} from './lib/tsx-analysis.ts';
 
 const IMPORT_DIR = path.join(process.cwd(), 'import');
 const PROJECTS_DIR = path.join(process.cwd(), 'projects');
+const PACKAGE_JSON_PATH = path.join(process.cwd(), 'package.json');
 
-interface ProjectMetadata {
-  name: string;
-  title: string;
-  description: string;
-  type: 'tsx' | 'html';
-}
+const DRY_RUN = process.argv.includes('--dry-run');
+
+// What to do when a project with the same slug exists (sidecars override it)
+let collisionStrategy: CollisionStrategy | null = null;
+
+const IMPORT_TYPES: Record<string, ProjectType> = {
+  '.tsx': 'tsx',
+  '.html': 'html',
+  '.md': 'markdown',
+};
 
 function toTitleCase(str: string): string {
   return str
@@ -67,9 +128,19 @@ function cleanAndTitleCase(str: string): string {
   return titleCased + trailingPunctuation;
 }
 
-function extractTitleFromContent(content: string, type: 'tsx' | 'html'): string | null {
+function extractTitleFromContent(content: string, type: ProjectType): string | null {
   // Try to extract title from various sources
 
+  // For Markdown: front matter title, else the first # heading
+  if (type === 'markdown') {
+    const { data, body } = parseFrontMatter(content);
+    if (data.title) {
+      return data.title;
+    }
+    const heading = extractMarkdownHeading(body);
+    return heading ? cleanAndTitleCase(heading) : null;
+  }
+
   // For TSX: Look for h1 tags in JSX
   const h1Match = content.match(/<h1[^>]*>([^<]+)<\/h1>/i);
   if (h1Match) {
@@ -100,9 +171,15 @@ function extractTitleFromContent(content: string, type: 'tsx' | 'html'): string
   return null;
 }
 
-function extractDescriptionFromContent(content: string, type: 'tsx' | 'html'): string | null {
+function extractDescriptionFromContent(content: string, type: ProjectType): string | null {
   // Try to extract description from various sources
 
+  // For Markdown: front matter description, else the first paragraph
+  if (type === 'markdown') {
+    const { data, body } = parseFrontMatter(content);
+    return data.description || extractMarkdownParagraph(body);
+  }
+
   // Look for subheadline class (common in newspaper-style layouts)
   const subheadlineMatch = content.match(/<div class="subheadline"[^>]*>\s*([^<]+)\s*<\/div>/i);
   if (subheadlineMatch) {
@@ -145,22 +222,136 @@ function slugify(str: string): string {
   return str
     .toLowerCase()
     .replace(/[^\w\s-]/g, '')     // Remove special chars
-    .replace(/\s+/g, '-')          // Convert spaces to dashes
+    .replace(/[\s_]+/g, '-')       // Convert spaces and underscores to dashes
     .replace(/-+/g, '-')           // Collapse multiple dashes
     .replace(/^[-\s]+|[-\s]+$/g, ''); // Remove leading/trailing dashes and spaces
 }
 
-function processImport(filename: string): void {
+interface ImportSource {
+  defaultName: string;   // Project name used when no title is detected
+  entryPath: string;     // Absolute path of the entry file
+  bundleDir?: string;    // Bundle root whose other files are copied alongside the entry
+  cleanup: () => void;   // Removes the source from import/ once it has been imported
+  discard: () => void;   // Removes temporary files only, leaving import/ as it was
+}
+
+function resolveImportSource(filename: string): ImportSource | null {
+  const sourcePath = path.join(IMPORT_DIR, filename);
   const ext = path.extname(filename);
-  const defaultProjectName = path.basename(filename, ext);
 
-  if (!['.tsx', '.html'].includes(ext)) {
+  if (fs.statSync(sourcePath).isDirectory()) {
+    const entry = detectEntry(listBundleFiles(sourcePath), Object.keys(IMPORT_TYPES));
+    if (!entry) {
+      console.log(`⚠️  Skipping ${filename}/ (no index.tsx, index.html, index.md or single entry file)`);
+      return null;
+    }
+    return {
+      defaultName: filename,
+      entryPath: path.join(sourcePath, entry),
+      bundleDir: sourcePath,
+      cleanup: () => fs.rmSync(sourcePath, { recursive: true, force: true }),
+      discard: () => {},
+    };
+  }
+
+  if (ext === '.zip') {
+    const stagingDir = fs.mkdtempSync(path.join(os.tmpdir(), 'import-bundle-'));
+    try {
+      extractZip(sourcePath, stagingDir);
+    } catch (error) {
+      fs.rmSync(stagingDir, { recursive: true, force: true });
+      throw error;
+    }
+    const entry = detectEntry(listBundleFiles(stagingDir), Object.keys(IMPORT_TYPES));
+    if (!entry) {
+      fs.rmSync(stagingDir, { recursive: true, force: true });
+      console.log(`⚠️  Skipping ${filename} (no index.tsx, index.html, index.md or single entry file)`);
+      return null;
+    }
+    return {
+      defaultName: path.basename(filename, ext),
+      entryPath: path.join(stagingDir, entry),
+      bundleDir: stagingDir,
+      cleanup: () => {
+        fs.rmSync(stagingDir, { recursive: true, force: true });
+        fs.unlinkSync(sourcePath);
+      },
+      discard: () => fs.rmSync(stagingDir, { recursive: true, force: true }),
+    };
+  }
+
+  if (!IMPORT_TYPES[ext]) {
     console.log(`⚠️  Skipping ${filename} (unsupported file type)`);
+    return null;
+  }
+  return {
+    defaultName: path.basename(filename, ext),
+    entryPath: sourcePath,
+    cleanup: () => fs.rmSync(sourcePath, { force: true }),
+    discard: () => {},
+  };
+}
+
+/**
+ * Removes an imported source and its sidecar from import/.
+ */
+function finishImport(source: ImportSource, filename: string): void {
+  source.cleanup();
+  fs.rmSync(sidecarPath(path.join(IMPORT_DIR, filename)), { force: true });
+}
+
+/**
+ * Maps each file the import would write, relative to the project directory,
+ * to the file it comes from: the entry becomes index<ext>, bundled files keep
+ * their layout.
+ */
+function listIncomingFiles(source: ImportSource, ext: string): Map<string, string> {
+  const incoming = new Map([[`index${ext}`, source.entryPath]]);
+  if (source.bundleDir) {
+    const entryRelative = path.relative(source.bundleDir, source.entryPath).split(path.sep).join('/');
+    for (const file of listBundleFiles(source.bundleDir)) {
+      if (file === entryRelative) continue;
+      incoming.set(file, path.join(source.bundleDir, file));
+    }
+  }
+  return incoming;
+}
+
+/**
+ * The project.json an import writes: the existing one updated, or a new one
+ * from the detected title and description.
+ */
+function importedMetadata(
+  projectDir: string,
+  projectName: string,
+  type: ProjectType,
+  title: string,
+  description: string | null,
+): ProjectMetadata {
+  const existing = loadProjectMetadata(projectDir);
+  if (existing) {
+    return { ...existing, name: projectName, type, updated: today() };
+  }
+  return {
+    name: projectName,
+    title,
+    description: description || `Interactive ${title}`,
+    type,
+    published: today(),
+  };
+}
+
+function processImport(filename: string): void {
+  const sidecar = loadImportSidecar(path.join(IMPORT_DIR, filename));
+  const source = resolveImportSource(filename);
+  if (!source) {
     return;
   }
 
-  const type = ext === '.tsx' ? 'tsx' : 'html';
-  const sourcePath = path.join(IMPORT_DIR, filename);
+  const ext = path.extname(source.entryPath);
+  const type = IMPORT_TYPES[ext];
+  const defaultProjectName = source.defaultName;
+  const sourcePath = source.entryPath;
 
   // Read file content to extract title and description
   const content = fs.readFileSync(sourcePath, 'utf-8');
@@ -170,9 +361,9 @@ function processImport(filename: string): void {
   // Check for manual title override via environment variable
   const titleOverride = process.env.IMPORT_TITLE;
 
-  // Determine project name and title
-  let projectName = defaultProjectName;
-  let projectTitle = toTitleCase(defaultProjectName);
+  // Determine project name and title (file names such as my_notes.md become my-notes)
+  let projectName = slugify(defaultProjectName);
+  let projectTitle = toTitleCase(projectName);
 
   if (titleOverride) {
     projectName = slugify(titleOverride);
@@ -193,19 +384,141 @@ function processImport(filename: string): void {
 
   console.log(`   Type: ${type}`);
 
-  const projectDir = path.join(PROJECTS_DIR, projectName);
+  let projectDir = path.join(PROJECTS_DIR, projectName);
+  const incoming = listIncomingFiles(source, ext);
+
+  // An invalid name or project.json fails here, before anything in import/ or
+  // projects/ changes
+  try {
+    validateProjectMetadata(
+      importedMetadata(projectDir, projectName, type, projectTitle, extractedDescription),
+      path.join(projectDir, 'project.json'),
+    );
+  } catch (error) {
+    source.discard();
+    throw error;
+  }
+
+  // Catch what would otherwise only fail inside the Vite build. A bundle that
+  // ships its own main.tsx picks its component itself.
+  let component: ComponentExport = { kind: 'default' };
+  if (type === 'tsx') {
+    const analysis = analyzeTsxProject(`index${ext}`, incoming);
+    if (!incoming.has('main.tsx')) {
+      if (!analysis.component) {
+        source.discard();
+        throw new TsxAnalysisError(filename, 'no exported component found (expected a default export or an exported PascalCase component)');
+      }
+      component = analysis.component;
+      console.log(`   Component: ${component.kind === 'default' ? 'default export' : `${component.name} (named export)`}`);
+      if (analysis.otherComponents.length > 0) {
+        console.log(`   ⚠️  Also exports ${analysis.otherComponents.join(', ')}; export the one to render as default to choose it`);
+      }
+    }
+    if (analysis.packages.length > 0) {
+      console.log(`   Packages: ${analysis.packages.join(', ')}`);
+    }
+    const missing = findMissingPackages(analysis.packages, PACKAGE_JSON_PATH);
+    if (missing.length > 0) {
+      source.discard();
+      throw new TsxAnalysisError(filename, `imports packages missing from package.json: ${missing.join(', ')}\n` +
+        `   Install them with "npm install ${missing.join(' ')}" and import again`);
+    }
+  }
+
+  // An existing project is only touched when asked to, and its current version
+  // is always kept as a revision
+  if (fs.existsSync(projectDir)) {
+    if (matchesProject(projectDir, incoming)) {
+      console.log(`   ✓ projects/${projectName}/ already has identical content, nothing to import`);
+      if (DRY_RUN) {
+        source.discard();
+        console.log(`   📝 Would remove ${filename} from import/`);
+      } else {
+        finishImport(source, filename);
+      }
+      return;
+    }
+
+    const strategy = sidecar?.onCollision ?? collisionStrategy;
+    if (!strategy || strategy === 'skip') {
+      source.discard();
+      console.log(`   ⚠️  projects/${projectName}/ already exists with different content, skipping`);
+      if (!strategy) {
+        console.log(`      Choose with --on-collision=${COLLISION_STRATEGIES.join('|')} or ${filename}${SIDECAR_SUFFIX}`);
+      }
+      return;
+    }
+
+    const origin = sidecar?.onCollision ? `from ${filename}${SIDECAR_SUFFIX}` : 'from --on-collision';
+    console.log(`   ⚠️  projects/${projectName}/ already exists with different content (${strategy}, ${origin})`);
+
+    if (strategy === 'new') {
+      projectName = nextFreeSlug(PROJECTS_DIR, projectName);
+      projectDir = path.join(PROJECTS_DIR, projectName);
+      console.log(`   ${DRY_RUN ? '📝 Would import' : '✓ Importing'} as new project: ${projectName}`);
+    } else {
+      const existing = loadProjectMetadata(projectDir);
+      const revisionDir = `projects/${projectName}/${REVISIONS_DIR}/${nextRevisionNumber(projectDir)}/`;
+      if (!existing) {
+        console.log(`   ⚠️  projects/${projectName}/ has no project.json, so no revision is kept`);
+      } else if (DRY_RUN) {
+        console.log(`   📝 Would archive the current version to: ${revisionDir}`);
+      } else {
+        archiveRevision(projectDir, existing);
+        console.log(`   ✓ Archived the current version to: ${revisionDir}`);
+      }
+
+      // A different project type leaves nothing worth keeping besides the
+      // metadata and earlier revisions
+      if (existing && existing.type !== type) {
+        if (!DRY_RUN) {
+          for (const entry of fs.readdirSync(projectDir)) {
+            if (entry === 'project.json' || entry === REVISIONS_DIR) continue;
+            fs.rmSync(path.join(projectDir, entry), { recursive: true, force: true });
+          }
+        }
+        console.log(`   ${DRY_RUN ? '📝 Would clear' : '✓ Cleared'} previous ${existing.type} project files`);
+      }
+    }
+  }
+
   const targetFile = path.join(projectDir, `index${ext}`);
-  const metadataFile = path.join(projectDir, 'project.json');
 
   // Create project directory
   if (!fs.existsSync(projectDir)) {
-    fs.mkdirSync(projectDir, { recursive: true });
-    console.log(`   ✓ Created directory: projects/${projectName}/`);
+    if (DRY_RUN) {
+      console.log(`   📝 Would create directory: projects/${projectName}/`);
+    } else {
+      fs.mkdirSync(projectDir, { recursive: true });
+      console.log(`   ✓ Created directory: projects/${projectName}/`);
+    }
   }
 
-  // Move file
-  fs.renameSync(sourcePath, targetFile);
-  console.log(`   ✓ Moved to: projects/${projectName}/index${ext}`);
+  // Copy the rest of a bundle (assets, sibling modules, data) preserving its layout
+  const bundleFiles = new Set([...incoming.keys()].filter(file => file !== `index${ext}`));
+  if (source.bundleDir) {
+    for (const file of DRY_RUN ? [] : bundleFiles) {
+      const target = path.join(projectDir, file);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.copyFileSync(incoming.get(file)!, target);
+    }
+    if (DRY_RUN) {
+      console.log(`   📝 Would copy ${bundleFiles.size} bundled file(s) to: projects/${projectName}/`);
+      bundleFiles.forEach(file => console.log(`      ${file}`));
+    } else {
+      console.log(`   ✓ Copied ${bundleFiles.size} bundled file(s) to: projects/${projectName}/`);
+    }
+  }
+
+  // Copy the entry file; the source is removed from import/ once project.json is written
+  if (DRY_RUN) {
+    source.discard();
+    console.log(`   📝 Would move ${filename} to: projects/${projectName}/index${ext}`);
+  } else {
+    fs.copyFileSync(sourcePath, targetFile);
+    console.log(`   ✓ Moved to: projects/${projectName}/index${ext}`);
+  }
 
   // For TSX projects, create HTML entry point and main wrapper
   if (type === 'tsx') {
@@ -222,17 +535,6 @@ function processImport(filename: string): void {
   </body>
 </html>`;
 
-    const mainContent = `import React from 'react'
-import ReactDOM from 'react-dom/client'
-import App from './index.tsx'
-import './index.css'
-
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-)`;
-
     const cssContent = `@tailwind base;
 @tailwind components;
 @tailwind utilities;
@@ -242,38 +544,53 @@ body {
   padding: 0;
 }`;
 
-    fs.writeFileSync(path.join(projectDir, 'index.html'), htmlContent);
-    fs.writeFileSync(path.join(projectDir, 'main.tsx'), mainContent);
-    fs.writeFileSync(path.join(projectDir, 'index.css'), cssContent);
-    console.log(`   ✓ Generated index.html, main.tsx, and index.css`);
+    // Files shipped in a bundle, or kept from the project being updated, take
+    // precedence over the generated ones. A main.tsx generated by an earlier
+    // import is regenerated, since the component it imports may have changed.
+    const generated: string[] = [];
+    const scaffold: [string, string][] = [
+      ['index.html', htmlContent],
+      ['main.tsx', renderMainTsx(component)],
+      ['index.css', cssContent],
+    ];
+    for (const [file, fileContent] of scaffold) {
+      const filePath = path.join(projectDir, file);
+      if (bundleFiles.has(file)) continue;
+      if (fs.existsSync(filePath)) {
+        const current = fs.readFileSync(filePath, 'utf-8');
+        if (file !== 'main.tsx' || !isGeneratedMainTsx(current) || current === fileContent) continue;
+      }
+      if (!DRY_RUN) {
+        fs.writeFileSync(path.join(projectDir, file), fileContent);
+      }
+      generated.push(file);
+    }
+    if (generated.length > 0) {
+      console.log(`   ${DRY_RUN ? '📝 Would generate' : '✓ Generated'} ${generated.join(', ')}`);
+    }
   }
 
   // Create or update project.json
-  let metadata: ProjectMetadata;
-  if (fs.existsSync(metadataFile)) {
-    const existing = JSON.parse(fs.readFileSync(metadataFile, 'utf-8'));
-    metadata = {
-      ...existing,
-      name: projectName,
-      type: type,
-    };
-    console.log(`   ✓ Updated existing project.json`);
+  const existing = loadProjectMetadata(projectDir);
+  const metadata = importedMetadata(projectDir, projectName, type, projectTitle, extractedDescription);
+  if (existing) {
+    console.log(`   ${DRY_RUN ? '📝 Would update' : '✓ Updated'} existing project.json`);
   } else {
-    const defaultDescription = extractedDescription || `Interactive ${projectTitle}`;
-    metadata = {
-      name: projectName,
-      title: projectTitle,
-      description: defaultDescription,
-      type: type,
-    };
-    console.log(`   ✓ Created project.json`);
+    console.log(`   ${DRY_RUN ? '📝 Would create' : '✓ Created'} project.json`);
     if (extractedDescription) {
       console.log(`   ✓ Detected description from content`);
     }
   }
 
-  fs.writeFileSync(metadataFile, JSON.stringify(metadata, null, 2));
-  console.log(`\n✅ Successfully imported: ${projectName}`);
+  if (DRY_RUN) {
+    // Still surface metadata problems the real import would fail on
+    validateProjectMetadata(metadata, path.join(projectDir, 'project.json'));
+    console.log(`\n📝 Would import: ${projectName}`);
+  } else {
+    writeProjectMetadata(projectDir, metadata);
+    finishImport(source, filename);
+    console.log(`\n✅ Successfully imported: ${projectName}`);
+  }
   console.log(`   Title: ${metadata.title}`);
   console.log(`   Description: ${metadata.description}`);
 }
@@ -281,27 +598,70 @@ body {
 // Main execution
 console.log('🚀 Smart Import Processor\n');
 
+if (DRY_RUN) {
+  console.log('📝 Dry run: import/ and projects/ will not be changed\n');
+}
+
 if (!fs.existsSync(IMPORT_DIR)) {
   console.error('❌ Import directory not found!');
   process.exit(1);
 }
 
-if (!fs.existsSync(PROJECTS_DIR)) {
+const collisionFlag = process.argv.find(arg => arg.startsWith('--on-collision='));
+const collisionSetting = collisionFlag ? collisionFlag.slice('--on-collision='.length) : process.env.IMPORT_ON_COLLISION;
+if (collisionSetting !== undefined) {
+  if (!isCollisionStrategy(collisionSetting)) {
+    console.error(`❌ Invalid collision strategy: ${collisionSetting} (expected one of: ${COLLISION_STRATEGIES.join(', ')})`);
+    process.exit(1);
+  }
+  collisionStrategy = collisionSetting;
+}
+
+if (!fs.existsSync(PROJECTS_DIR) && !DRY_RUN) {
   fs.mkdirSync(PROJECTS_DIR, { recursive: true });
 }
 
 const files = fs.readdirSync(IMPORT_DIR);
-const importFiles = files.filter(f => ['.tsx', '.html'].includes(path.extname(f)));
+const importFiles = files.filter(f =>
+  path.extname(f) in IMPORT_TYPES ||
+  path.extname(f) === '.zip' ||
+  fs.statSync(path.join(IMPORT_DIR, f)).isDirectory()
+);
 
 if (importFiles.length === 0) {
   console.log('📭 No files to import (import/ directory is empty)');
-  console.log('\nDrop .tsx or .html files named like "project-name.tsx" in the import/ directory');
+  console.log('\nDrop .tsx, .html or .md files named like "project-name.tsx" in the import/ directory');
+  console.log('Multi-file projects can be dropped in as a directory or a .zip bundle');
   process.exit(0);
 }
 
 console.log(`Found ${importFiles.length} file(s) to import:\n`);
 importFiles.forEach(f => console.log(`  - ${f}`));
 
-importFiles.forEach(processImport);
+const failedFiles: string[] = [];
+try {
+  for (const filename of importFiles) {
+    try {
+      processImport(filename);
+    } catch (error) {
+      // A broken bundle only spoils its own import
+      if (!(error instanceof BundleError)) throw error;
+      console.error(`\n❌ ${error.message}`);
+      failedFiles.push(filename);
+    }
+  }
+} catch (error) {
+  if (error instanceof MetadataValidationError || error instanceof ImportSidecarError
+    || error instanceof TsxAnalysisError) {
+    console.error(`\n❌ ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
+
+if (failedFiles.length > 0) {
+  console.error(`\n❌ Could not import ${failedFiles.length} file(s): ${failedFiles.join(', ')}`);
+  process.exit(1);
+}
 
-console.log('\n✨ Import complete!\n');
+console.log(DRY_RUN ? '\n✨ Dry run complete, nothing was imported\n' : '\n✨ Import complete!\n');
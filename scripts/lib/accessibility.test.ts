@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  A11yThresholdError,
+  auditHtml,
+  checkA11yThresholds,
+  parseA11yThresholds,
+  type A11yReport,
+} from './accessibility.ts';
+
+function page(body: string, head = '<title>Test</title>'): string {
+  return `<!DOCTYPE html>\n<html lang="en">\n<head>${head}</head>\n<body>\n${body}\n</body>\n</html>`;
+}
+
+function rules(html: string): string[] {
+  return auditHtml(html, 'test/index.html').map(issue => `${issue.rule} ${issue.severity}`);
+}
+
+describe('auditHtml', () => {
+  it('finds nothing wrong with a well-formed page', () => {
+    expect(rules(page(`<h1>Title</h1>
+<h2>Section</h2>
+<img src="a.png" alt="">
+<a href="/">Home</a>
+<button aria-label="Close">×</button>
+<label for="q">Search</label><input id="q">
+<iframe src="x.html" title="Demo"></iframe>`))).toEqual([]);
+  });
+
+  it('checks the page-level rules', () => {
+    const html = '<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, user-scalable=no"></head><body></body></html>';
+    expect(rules(html)).toEqual(['html-lang error', 'document-title error', 'meta-viewport warning']);
+  });
+
+  it('reports elements without an accessible name', () => {
+    expect(rules(page(`<img src="a.png">
+<a href="/"></a>
+<button></button>
+<input type="text">
+<input type="text" placeholder="Name">
+<iframe src="x.html"></iframe>`))).toEqual([
+      'image-alt error',
+      'link-name error',
+      'button-name error',
+      'form-label error',
+      'form-label warning',
+      'frame-title warning',
+    ]);
+  });
+
+  it('reports skipped heading levels, empty headings and duplicate ids', () => {
+    expect(rules(page('<h1 id="a">One</h1>\n<h3 id="a">Three</h3>\n<h4></h4>'))).toEqual([
+      'duplicate-id warning',
+      'heading-order warning',
+      'empty-heading warning',
+    ]);
+  });
+
+  it('reports each low-contrast colour pair once per page', () => {
+    const issues = auditHtml(
+      page('<p>One</p>\n<p>Two</p>', '<title>Test</title><style>p { color: #999; background: #fff; }</style>'),
+      'test/index.html',
+    );
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ rule: 'color-contrast', severity: 'warning', line: 5 });
+    expect(issues[0].message).toBe('Text contrast 2.85:1 is below 4.5:1 (#999999 on #ffffff), 2 elements');
+  });
+
+  it('skips elements inside aria-hidden', () => {
+    expect(rules(page('<div aria-hidden="true"><img src="a.png"><a href="/"></a></div>'))).toEqual([]);
+  });
+
+  it('applies only the element rules to fragments', () => {
+    expect(rules('<img src="a.png">\n<p style="color:#eee">Faint</p>')).toEqual(['image-alt error']);
+  });
+
+  it('reports the line and a selector for each issue', () => {
+    const [issue] = auditHtml(page('<div class="card">\n  <img id="logo" src="a.png">\n</div>'), 'test/index.html');
+    expect(issue).toMatchObject({ file: 'test/index.html', line: 6, rule: 'image-alt' });
+    expect(issue.selector).toContain('img');
+  });
+});
+
+describe('thresholds', () => {
+  const report: A11yReport = { generatedAt: '', errors: 2, warnings: 5, projects: {} };
+
+  it('reads --max-errors and --max-warnings', () => {
+    expect(parseA11yThresholds(['--max-errors=0', '--max-warnings=10'])).toEqual({ maxErrors: 0, maxWarnings: 10 });
+    expect(parseA11yThresholds([])).toEqual({ maxErrors: undefined, maxWarnings: undefined });
+  });
+
+  it('rejects values that are not non-negative integers', () => {
+    expect(() => parseA11yThresholds(['--max-errors=-1'])).toThrow(A11yThresholdError);
+    expect(() => parseA11yThresholds(['--max-a11y-warnings='], '--max-a11y-')).toThrow(A11yThresholdError);
+  });
+
+  it('describes each exceeded threshold', () => {
+    expect(checkA11yThresholds(report, { maxErrors: 2, maxWarnings: 5 })).toEqual([]);
+    expect(checkA11yThresholds(report, { maxErrors: 1, maxWarnings: 4 })).toEqual([
+      '2 accessibility error(s), more than the allowed 1',
+      '5 accessibility warning(s), more than the allowed 4',
+    ]);
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * Accessibility Audit
+ * Parses every HTML page under builds/<project>/ and reports common
+ * accessibility problems, with the selector and line of each offending element
+ *
+ * Rules:
+ *   html-lang        error    <html> has no lang attribute
+ *   document-title   error    Page has no <title>, or an empty one
+ *   image-alt        error    <img> / <input type="image"> without alt text
+ *   link-name        error    Link with no text or label
+ *   button-name      error    Button with no text or label
+ *   form-label       error    Form control without a label (warning if only a placeholder)
+ *   heading-order    warning  Heading level skipped, e.g. h2 followed by h4
+ *   empty-heading    warning  Heading with no text
+ *   frame-title      warning  <iframe> without a title
+ *   duplicate-id     warning  id used more than once (breaks labels and ARIA references)
+ *   meta-viewport    warning  Zooming disabled by the viewport meta tag
+ *   color-contrast   warning  Text below WCAG AA contrast (see contrast.ts)
+ *
+ * Errors are problems the markup states outright; warnings are likely problems,
+ * including contrast, which is computed from a simplified cascade. Elements
+ * inside aria-hidden="true" are skipped. Only the static HTML is audited: for
+ * tsx projects that is the page shell, not what React renders into it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse, parseFragment, type DefaultTreeAdapterMap } from 'parse5';
+import { isPage, listHtmlFiles } from './html.ts';
+import { contrastRatio, createContrastResolver, formatColor, parseStylesheet } from './contrast.ts';
+
+type Node = DefaultTreeAdapterMap['node'];
+type Element = DefaultTreeAdapterMap['element'];
+type TextNode = DefaultTreeAdapterMap['textNode'];
+
+export const A11Y_REPORT_FILENAME = 'a11y-report.json';
+
+export const A11Y_SEVERITIES = ['error', 'warning'] as const;
+
+export type A11ySeverity = typeof A11Y_SEVERITIES[number];
+
+export interface A11yIssue {
+  file: string;        // Path relative to builds/
+  line: number;
+  rule: string;
+  severity: A11ySeverity;
+  selector: string;
+  message: string;
+}
+
+export interface A11yProjectReport {
+  pages: number;
+  errors: number;
+  warnings: number;
+  issues: A11yIssue[];
+}
+
+export interface A11yReport {
+  generatedAt: string;
+  errors: number;
+  warnings: number;
+  projects: Record<string, A11yProjectReport>;
+}
+
+const HEADING_PATTERN = /^h([1-6])$/;
+const UNLABELLED_INPUT_TYPES = new Set(['hidden', 'submit', 'reset', 'button', 'image']);
+const NON_TEXT_TAGS = new Set(['script', 'style', 'template', 'noscript', 'head', 'title', 'option']);
+
+// Only the first few issues per project are printed; the JSON report has all
+const SUMMARY_ISSUES_PER_PROJECT = 15;
+
+function isElement(node: Node): node is Element {
+  return 'tagName' in node;
+}
+
+function attribute(element: Element, name: string): string | undefined {
+  return element.attrs.find(attr => attr.name === name)?.value;
+}
+
+function parentElement(element: Element): Element | null {
+  const parent = element.parentNode;
+  return parent && isElement(parent) ? parent : null;
+}
+
+function childElements(node: Node): Element[] {
+  return 'childNodes' in node ? node.childNodes.filter(isElement) : [];
+}
+
+function lineOf(element: Element): number {
+  return element.sourceCodeLocation?.startLine ?? 1;
+}
+
+/**
+ * Every element in document order.
+ */
+function allElements(node: Node): Element[] {
+  const elements: Element[] = [];
+  const visit = (current: Node) => {
+    for (const child of 'childNodes' in current ? current.childNodes : []) {
+      if (isElement(child)) {
+        elements.push(child);
+        visit(child);
+      }
+    }
+  };
+  visit(node);
+  return elements;
+}
+
+/**
+ * A CSS selector for the element: its path from <body> (or the nearest
+ * ancestor with an id), with :nth-of-type() where siblings share a tag.
+ */
+function selectorFor(element: Element): string {
+  const parts: string[] = [];
+  for (let current: Element | null = element; current; current = parentElement(current)) {
+    const id = attribute(current, 'id');
+    if (id && /^[A-Za-z][\w-]*$/.test(id)) {
+      parts.unshift(`${current.tagName}#${id}`);
+      break;
+    }
+    let part = current.tagName;
+    const parent = parentElement(current);
+    if (parent) {
+      const sameTag = childElements(parent).filter(sibling => sibling.tagName === current!.tagName);
+      if (sameTag.length > 1) part += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+    }
+    parts.unshift(part);
+    if (current.tagName === 'body' || current.tagName === 'html') break;
+  }
+  return parts.join(' > ');
+}
+
+/**
+ * The element's own text nodes, e.g. the contents of <title> or <style>.
+ */
+function ownText(element: Element): string {
+  return element.childNodes
+    .filter(child => child.nodeName === '#text')
+    .map(child => (child as TextNode).value)
+    .join('');
+}
+
+function textContent(node: Node): string {
+  if (node.nodeName === '#text') {
+    return (node as TextNode).value;
+  }
+  if (isElement(node)) {
+    if (NON_TEXT_TAGS.has(node.tagName)) return '';
+    // Images inside links and buttons name them through their alt text
+    if (node.tagName === 'img') return attribute(node, 'alt') ?? '';
+  }
+  return 'childNodes' in node ? node.childNodes.map(textContent).join(' ') : '';
+}
+
+function isHidden(element: Element): boolean {
+  for (let current: Element | null = element; current; current = parentElement(current)) {
+    if (attribute(current, 'aria-hidden') === 'true' || attribute(current, 'hidden') !== undefined) return true;
+  }
+  return false;
+}
+
+/**
+ * Text an assistive technology would announce for the element, roughly
+ * following the accessible name computation.
+ */
+function accessibleName(element: Element, byId: Map<string, Element>): string {
+  const labelledBy = attribute(element, 'aria-labelledby');
+  if (labelledBy) {
+    const text = labelledBy.split(/\s+/).map(id => (byId.has(id) ? textContent(byId.get(id)!) : '')).join(' ');
+    if (text.trim()) return text.trim();
+  }
+  return (attribute(element, 'aria-label') ?? '').trim()
+    || textContent(element).trim()
+    || (attribute(element, 'title') ?? '').trim();
+}
+
+function hasLabel(control: Element, byId: Map<string, Element>, labelFor: Set<string>): boolean {
+  if (accessibleNameFromAttributes(control, byId)) return true;
+  const id = attribute(control, 'id');
+  if (id && labelFor.has(id)) return true;
+  for (let current = parentElement(control); current; current = parentElement(current)) {
+    if (current.tagName === 'label') return true;
+  }
+  return false;
+}
+
+function accessibleNameFromAttributes(element: Element, byId: Map<string, Element>): boolean {
+  const labelledBy = attribute(element, 'aria-labelledby');
+  if (labelledBy && labelledBy.split(/\s+/).some(id => byId.has(id))) return true;
+  return Boolean(attribute(element, 'aria-label')?.trim() || attribute(element, 'title')?.trim());
+}
+
+/**
+ * Audits one HTML file. Fragments (no <head> or <body>) get the element rules
+ * but not the page-level ones.
+ */
+export function auditHtml(html: string, file: string): A11yIssue[] {
+  const page = isPage(html);
+  const root = page
+    ? parse(html, { sourceCodeLocationInfo: true })
+    : parseFragment(html, { sourceCodeLocationInfo: true });
+  const elements = allElements(root);
+  const issues: A11yIssue[] = [];
+  const report = (element: Element, rule: string, severity: A11ySeverity, message: string) => {
+    issues.push({ file, line: lineOf(element), rule, severity, selector: selectorFor(element), message });
+  };
+
+  const byId = new Map<string, Element>();
+  const labelFor = new Set<string>();
+  for (const element of elements) {
+    const id = attribute(element, 'id');
+    if (id !== undefined && id !== '') {
+      if (byId.has(id)) {
+        report(element, 'duplicate-id', 'warning', `id "${id}" is already used on line ${lineOf(byId.get(id)!)}`);
+      } else {
+        byId.set(id, element);
+      }
+    }
+    const target = attribute(element, 'for');
+    if (element.tagName === 'label' && target) labelFor.add(target);
+  }
+
+  if (page) {
+    const htmlElement = elements.find(element => element.tagName === 'html');
+    if (htmlElement && !attribute(htmlElement, 'lang')?.trim()) {
+      report(htmlElement, 'html-lang', 'error', '<html> has no lang attribute');
+    }
+    const title = elements.find(element => element.tagName === 'title');
+    if (!title || !ownText(title).trim()) {
+      report(title ?? htmlElement ?? elements[0], 'document-title', 'error', 'Page has no title');
+    }
+    const viewport = elements.find(element => element.tagName === 'meta' && attribute(element, 'name') === 'viewport');
+    const viewportContent = viewport ? (attribute(viewport, 'content') ?? '').toLowerCase() : '';
+    const maxScale = viewportContent.match(/maximum-scale\s*=\s*([\d.]+)/);
+    if (viewport && (/user-scalable\s*=\s*(no|0)/.test(viewportContent) || (maxScale && parseFloat(maxScale[1]) < 2))) {
+      report(viewport, 'meta-viewport', 'warning', 'Viewport prevents zooming (user-scalable=no or maximum-scale below 2)');
+    }
+  }
+
+  const styles = elements
+    .filter(element => element.tagName === 'style')
+    .map(ownText)
+    .join('\n');
+  const textColors = createContrastResolver(parseStylesheet(styles));
+  const contrastIssues = new Map<string, { element: Element; message: string; count: number }>();
+
+  let previousHeading = 0;
+  for (const element of elements) {
+    if (isHidden(element)) continue;
+    const tag = element.tagName;
+    const type = (attribute(element, 'type') ?? '').toLowerCase();
+    const role = attribute(element, 'role');
+
+    if ((tag === 'img' || (tag === 'input' && type === 'image'))
+      && attribute(element, 'alt') === undefined
+      && role !== 'presentation' && role !== 'none'
+      && !accessibleNameFromAttributes(element, byId)) {
+      report(element, 'image-alt', 'error', 'Image has no alt attribute (use alt="" if it is decorative)');
+    }
+
+    const heading = tag.match(HEADING_PATTERN);
+    if (heading) {
+      const level = Number(heading[1]);
+      if (previousHeading > 0 && level > previousHeading + 1) {
+        report(element, 'heading-order', 'warning', `Heading level jumps from h${previousHeading} to h${level}`);
+      }
+      if (!accessibleName(element, byId)) {
+        report(element, 'empty-heading', 'warning', 'Heading has no text');
+      }
+      previousHeading = level;
+    }
+
+    if (tag === 'a' && attribute(element, 'href') !== undefined && !accessibleName(element, byId)) {
+      report(element, 'link-name', 'error', 'Link has no text, aria-label or title');
+    }
+
+    const isButton = tag === 'button' || role === 'button';
+    const isInputButton = tag === 'input' && type === 'button';
+    if ((isButton && !accessibleName(element, byId))
+      || (isInputButton && !attribute(element, 'value')?.trim() && !accessibleNameFromAttributes(element, byId))) {
+      report(element, 'button-name', 'error', 'Button has no text, aria-label or title');
+    }
+
+    const isControl = tag === 'select' || tag === 'textarea' || (tag === 'input' && !UNLABELLED_INPUT_TYPES.has(type));
+    if (isControl && !hasLabel(element, byId, labelFor)) {
+      if (attribute(element, 'placeholder')?.trim()) {
+        report(element, 'form-label', 'warning', 'Form control is only labelled by its placeholder');
+      } else {
+        report(element, 'form-label', 'error', 'Form control has no label');
+      }
+    }
+
+    if (tag === 'iframe' && !attribute(element, 'title')?.trim() && !accessibleNameFromAttributes(element, byId)) {
+      report(element, 'frame-title', 'warning', '<iframe> has no title');
+    }
+
+    // Contrast, for elements with text of their own
+    if (page && !NON_TEXT_TAGS.has(tag) && ownText(element).trim()) {
+      const colors = textColors(element);
+      if (colors?.styled) {
+        const ratio = contrastRatio(colors.foreground, colors.background);
+        const required = colors.large ? 3 : 4.5;
+        if (ratio < required) {
+          // One issue per colour pair per page, so a grey body text is one finding
+          const key = `${formatColor(colors.foreground)} on ${formatColor(colors.background)}`;
+          const existing = contrastIssues.get(key);
+          if (existing) {
+            existing.count++;
+          } else {
+            contrastIssues.set(key, {
+              element,
+              message: `Text contrast ${ratio.toFixed(2)}:1 is below ${required}:1 (${key})`,
+              count: 1,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  for (const { element, message, count } of contrastIssues.values()) {
+    report(element, 'color-contrast', 'warning', count > 1 ? `${message}, ${count} elements` : message);
+  }
+  return issues.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Audits every HTML file under builds/<projectName>/.
+ */
+export function auditProject(buildsDir: string, projectName: string): A11yProjectReport {
+  const projectDir = path.join(buildsDir, projectName);
+  const files = fs.existsSync(projectDir) ? listHtmlFiles(projectDir) : [];
+  const issues = files.flatMap(file =>
+    auditHtml(fs.readFileSync(path.join(projectDir, file), 'utf-8'), `${projectName}/${file}`));
+  return {
+    pages: files.length,
+    errors: issues.filter(issue => issue.severity === 'error').length,
+    warnings: issues.filter(issue => issue.severity === 'warning').length,
+    issues,
+  };
+}
+
+/**
+ * Audits the given projects and writes builds/a11y-report.json.
+ */
+export function writeA11yReport(buildsDir: string, projectNames: string[]): A11yReport {
+  const projects: Record<string, A11yProjectReport> = {};
+  for (const name of [...projectNames].sort()) {
+    projects[name] = auditProject(buildsDir, name);
+  }
+  const report: A11yReport = {
+    generatedAt: new Date().toISOString(),
+    errors: Object.values(projects).reduce((sum, project) => sum + project.errors, 0),
+    warnings: Object.values(projects).reduce((sum, project) => sum + project.warnings, 0),
+    projects,
+  };
+  fs.writeFileSync(path.join(buildsDir, A11Y_REPORT_FILENAME), JSON.stringify(report, null, 2));
+  return report;
+}
+
+/**
+ * Prints a per-project summary with the first issues of each project.
+ */
+export function printA11ySummary(report: A11yReport): void {
+  for (const [name, project] of Object.entries(report.projects)) {
+    if (project.issues.length === 0) continue;
+    console.log(`\n♿ ${name}: ${project.errors} error(s), ${project.warnings} warning(s) in ${project.pages} page(s)`);
+    for (const issue of project.issues.slice(0, SUMMARY_ISSUES_PER_PROJECT)) {
+      const icon = issue.severity === 'error' ? '❌' : '⚠️ ';
+      console.log(`   ${icon} ${issue.file}:${issue.line}  ${issue.rule}  ${issue.selector}`);
+      console.log(`      ${issue.message}`);
+    }
+    const more = project.issues.length - SUMMARY_ISSUES_PER_PROJECT;
+    if (more > 0) {
+      console.log(`   ... and ${more} more (see builds/${A11Y_REPORT_FILENAME})`);
+    }
+  }
+  const clean = Object.values(report.projects).filter(project => project.issues.length === 0).length;
+  console.log(`\n♿ ${report.errors} error(s), ${report.warnings} warning(s) across ` +
+    `${Object.keys(report.projects).length} project(s) (${clean} clean)`);
+}
+
+export interface A11yThresholds {
+  maxErrors?: number;
+  maxWarnings?: number;
+}
+
+export class A11yThresholdError extends Error {
+  constructor(flag: string, value: string) {
+    super(`Invalid ${flag}: ${value} (expected a non-negative integer)`);
+    this.name = 'A11yThresholdError';
+  }
+}
+
+/**
+ * Reads `<prefix>errors=N` and `<prefix>warnings=N` from the command line,
+ * e.g. --max-errors=0.
+ */
+export function parseA11yThresholds(args: string[], prefix = '--max-'): A11yThresholds {
+  const read = (name: string): number | undefined => {
+    const flag = `${prefix}${name}`;
+    const arg = args.find(a => a.startsWith(`${flag}=`));
+    if (arg === undefined) return undefined;
+    const raw = arg.slice(flag.length + 1);
+    const value = Number(raw);
+    if (raw === '' || !Number.isInteger(value) || value < 0) {
+      throw new A11yThresholdError(flag, raw);
+    }
+    return value;
+  };
+  return { maxErrors: read('errors'), maxWarnings: read('warnings') };
+}
+
+/**
+ * Describes each threshold the report exceeds; empty when it passes.
+ */
+export function checkA11yThresholds(report: A11yReport, thresholds: A11yThresholds): string[] {
+  const failures: string[] = [];
+  if (thresholds.maxErrors !== undefined && report.errors > thresholds.maxErrors) {
+    failures.push(`${report.errors} accessibility error(s), more than the allowed ${thresholds.maxErrors}`);
+  }
+  if (thresholds.maxWarnings !== undefined && report.warnings > thresholds.maxWarnings) {
+    failures.push(`${report.warnings} accessibility warning(s), more than the allowed ${thresholds.maxWarnings}`);
+  }
+  return failures;
+}
@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AliasMapError, loadAliases, recordRename, saveAliases, writeRedirects, type AliasMap } from './aliases.ts';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aliases-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('loadAliases', () => {
+  it('returns an empty map when the file does not exist', () => {
+    expect(loadAliases(path.join(dir, 'project-aliases.json'))).toEqual({});
+  });
+
+  it('round-trips through saveAliases, sorted by old slug', () => {
+    const file = path.join(dir, 'project-aliases.json');
+    saveAliases(file, { 'zeta-old': 'zeta', 'alpha-old': 'alpha' });
+    expect(Object.keys(JSON.parse(fs.readFileSync(file, 'utf-8')))).toEqual(['alpha-old', 'zeta-old']);
+    expect(loadAliases(file)).toEqual({ 'alpha-old': 'alpha', 'zeta-old': 'zeta' });
+  });
+
+  it.each([
+    ['{ "old": ', /not valid JSON/],
+    ['["old", "new"]', /must be a JSON object/],
+    ['{ "Old Name": "new" }', /"Old Name" must map a slug to a slug/],
+    ['{ "old": "../new" }', /"old" must map a slug to a slug/],
+    ['{ "old": 1 }', /"old" must map a slug to a slug/],
+  ])('rejects %s', (content, message) => {
+    const file = path.join(dir, 'project-aliases.json');
+    fs.writeFileSync(file, content);
+    expect(() => loadAliases(file)).toThrow(AliasMapError);
+    expect(() => loadAliases(file)).toThrow(message);
+  });
+});
+
+describe('recordRename', () => {
+  it('points older aliases straight at the new slug', () => {
+    const aliases: AliasMap = { first: 'second' };
+    recordRename(aliases, 'second', 'third');
+    expect(aliases).toEqual({ first: 'third', second: 'third' });
+  });
+
+  it('drops the alias when a project is renamed back to an old slug', () => {
+    const aliases: AliasMap = { original: 'renamed' };
+    recordRename(aliases, 'renamed', 'original');
+    expect(aliases).toEqual({ renamed: 'original' });
+  });
+});
+
+describe('writeRedirects', () => {
+  it('writes a redirect for every page of the target build', () => {
+    const buildsDir = path.join(dir, 'builds');
+    fs.mkdirSync(path.join(buildsDir, 'new-name', 'docs'), { recursive: true });
+    fs.writeFileSync(path.join(buildsDir, 'new-name', 'index.html'), '<html></html>');
+    fs.writeFileSync(path.join(buildsDir, 'new-name', 'docs', 'index.html'), '<html></html>');
+    fs.mkdirSync(path.join(buildsDir, 'old-name'));
+    fs.writeFileSync(path.join(buildsDir, 'old-name', 'stale.html'), 'stale');
+
+    const report = writeRedirects(
+      { 'old-name': 'new-name' },
+      new Map([['new-name', 'New & Improved']]),
+      buildsDir,
+      '/docs/',
+      'https://example.com/docs',
+    );
+
+    expect(report).toEqual({ written: [{ from: 'old-name', to: 'new-name', pages: 2 }], skipped: [] });
+    expect(fs.existsSync(path.join(buildsDir, 'old-name', 'stale.html'))).toBe(false);
+    const page = fs.readFileSync(path.join(buildsDir, 'old-name', 'docs', 'index.html'), 'utf-8');
+    expect(page).toContain('<meta http-equiv="refresh" content="0; url=/docs/new-name/docs/">');
+    expect(page).toContain('<link rel="canonical" href="https://example.com/docs/new-name/docs/">');
+    expect(page).toContain('New &amp; Improved (moved)');
+    expect(fs.readFileSync(path.join(buildsDir, 'old-name', 'README.txt'), 'utf-8'))
+      .toBe('New & Improved\nThis document moved to https://example.com/docs/new-name/');
+  });
+
+  it('skips aliases that clash with a current project or point nowhere', () => {
+    const report = writeRedirects(
+      { taken: 'target', orphan: 'missing' },
+      new Map([['taken', 'Taken'], ['target', 'Target']]),
+      path.join(dir, 'builds'),
+      '/',
+      'https://example.com',
+    );
+
+    expect(report.written).toEqual([]);
+    expect(report.skipped).toEqual([
+      { from: 'taken', reason: 'a current project uses this slug' },
+      { from: 'orphan', reason: 'target project "missing" does not exist' },
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Project Aliases
+ * Former slugs of renamed projects, kept in project-aliases.json so their old
+ * URLs keep working
+ *
+ * The file maps each old slug to the project's current slug:
+ *
+ *   { "old-slug": "new-slug" }
+ *
+ * Every build writes redirect pages (meta refresh + canonical link) to
+ * builds/<old-slug>/ for each page of the current build, so deep links land on
+ * the same page, plus a README.txt so the directory deploys like any other
+ * build. Only current slugs appear in the gallery, feed and sitemap.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { escapeHtml, listHtmlFiles } from './html.ts';
+import { isSlug } from './metadata.ts';
+
+export const ALIASES_FILENAME = 'project-aliases.json';
+
+export type AliasMap = Record<string, string>;
+
+export class AliasMapError extends Error {
+  constructor(file: string, message: string) {
+    super(`Invalid alias map ${path.relative(process.cwd(), file) || file}: ${message}`);
+    this.name = 'AliasMapError';
+  }
+}
+
+export interface RedirectReport {
+  written: { from: string; to: string; pages: number }[];
+  skipped: { from: string; reason: string }[];
+}
+
+/**
+ * Reads the alias map, or an empty one if the file does not exist yet.
+ */
+export function loadAliases(file: string): AliasMap {
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new AliasMapError(file, `not valid JSON (${(error as Error).message})`);
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new AliasMapError(file, 'must be a JSON object');
+  }
+  for (const [from, to] of Object.entries(raw)) {
+    if (!isSlug(from) || !isSlug(to)) {
+      throw new AliasMapError(file, `"${from}" must map a slug to a slug`);
+    }
+  }
+  return raw as AliasMap;
+}
+
+export function saveAliases(file: string, aliases: AliasMap): void {
+  const sorted = Object.fromEntries(Object.entries(aliases).sort(([a], [b]) => a.localeCompare(b)));
+  fs.writeFileSync(file, `${JSON.stringify(sorted, null, 2)}\n`);
+}
+
+/**
+ * Records that `from` was renamed to `to`. Older aliases of `from` are pointed
+ * straight at `to`, so redirects never chain, and `to` stops being an alias if
+ * it was one.
+ */
+export function recordRename(aliases: AliasMap, from: string, to: string): void {
+  for (const [alias, target] of Object.entries(aliases)) {
+    if (target === from) aliases[alias] = to;
+  }
+  aliases[from] = to;
+  delete aliases[to];
+}
+
+export function renderRedirectPage(targetPath: string, canonicalUrl: string, title: string): string {
+  const target = escapeHtml(targetPath);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(title)} (moved)</title>
+  <meta name="robots" content="noindex">
+  <meta http-equiv="refresh" content="0; url=${target}">
+  <link rel="canonical" href="${escapeHtml(canonicalUrl)}">
+</head>
+<body>
+  <p>This page has moved to <a href="${target}">${escapeHtml(title)}</a>.</p>
+</body>
+</html>
+`;
+}
+
+/**
+ * Replaces builds/<old>/ with redirect pages for every alias whose target is a
+ * current project. `titles` maps current project names to their titles;
+ * `basePath` and `siteUrl` locate builds/ on the server (`siteUrl` without a
+ * trailing slash).
+ */
+export function writeRedirects(
+  aliases: AliasMap,
+  titles: Map<string, string>,
+  buildsDir: string,
+  basePath: string,
+  siteUrl: string,
+): RedirectReport {
+  const report: RedirectReport = { written: [], skipped: [] };
+
+  for (const [from, to] of Object.entries(aliases)) {
+    if (titles.has(from)) {
+      report.skipped.push({ from, reason: 'a current project uses this slug' });
+      continue;
+    }
+    const title = titles.get(to);
+    if (title === undefined) {
+      report.skipped.push({ from, reason: `target project "${to}" does not exist` });
+      continue;
+    }
+
+    const targetBuild = path.join(buildsDir, to);
+    const pages = fs.existsSync(targetBuild)
+      ? listHtmlFiles(targetBuild)
+      : ['index.html'];
+    if (!pages.includes('index.html')) pages.push('index.html');
+
+    const aliasBuild = path.join(buildsDir, from);
+    fs.rmSync(aliasBuild, { recursive: true, force: true });
+    for (const page of pages) {
+      const pagePath = encodeURI(page.replace(/(^|\/)index\.html?$/i, '$1'));
+      const file = path.join(aliasBuild, page);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, renderRedirectPage(`${basePath}${to}/${pagePath}`, `${siteUrl}/${to}/${pagePath}`, title));
+    }
+    fs.writeFileSync(path.join(aliasBuild, 'README.txt'), `${title}\nThis document moved to ${siteUrl}/${to}/`);
+    report.written.push({ from, to, pages: pages.length });
+  }
+  return report;
+}
@@ -0,0 +1,145 @@
+/**
+ * Build Manifest
+ * Records a content hash of each project's inputs and outputs in
+ * builds/.build-manifest.json so unchanged projects can be skipped
+ *
+ * Inputs are every file in projects/<name>/ plus the shared configuration and
+ * build tooling that affects the output. Outputs are every file in builds/<name>/,
+ * so a deleted or hand-edited build is rebuilt even when the sources are unchanged.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ProjectMetadata, ProjectType } from './metadata.ts';
+
+const MANIFEST_VERSION = 1;
+const MANIFEST_FILENAME = '.build-manifest.json';
+
+// Repo-level files that change the output of every project
+const SHARED_INPUTS = [
+  'scripts/build-projects.ts',
+  'scripts/lib',
+];
+
+// Additional repo-level files that affect builds of a given project type
+const TYPE_INPUTS: Record<ProjectType, string[]> = {
+  tsx: [
+    'package.json',
+    'package-lock.json',
+    'tsconfig.json',
+    'tailwind.config.js',
+    'postcss.config.js',
+  ],
+  html: ['vendor-cache'],
+  markdown: ['package-lock.json'],
+};
+
+export interface BuildRecord {
+  inputHash: string;
+  outputHash: string;
+  builtAt: string;
+}
+
+export interface BuildManifest {
+  version: number;
+  projects: Record<string, BuildRecord>;
+}
+
+function listFiles(target: string): string[] {
+  if (!fs.existsSync(target)) {
+    return [];
+  }
+  if (!fs.statSync(target).isDirectory()) {
+    return [target];
+  }
+
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(target, { withFileTypes: true })) {
+    files.push(...listFiles(path.join(target, entry.name)));
+  }
+  return files;
+}
+
+/**
+ * Hashes the relative path and content of every file under the given paths.
+ * Paths are hashed relative to `root` so the result is stable across checkouts.
+ */
+export function hashPaths(root: string, targets: string[]): string {
+  const hash = crypto.createHash('sha256');
+  const files = targets
+    .flatMap(target => listFiles(path.resolve(root, target)))
+    .map(file => ({ file, key: path.relative(root, file).split(path.sep).join('/') }))
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+  for (const { file, key } of files) {
+    hash.update(key);
+    hash.update('\0');
+    hash.update(fs.readFileSync(file));
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * `context` is anything else that ends up in the output but comes from outside
+ * the project, such as the site URL or its series navigation, which changes
+ * with the other parts.
+ */
+export function hashProjectInputs(projectDir: string, metadata: ProjectMetadata, context = ''): string {
+  const repoRoot = process.cwd();
+  const inputs = [
+    path.relative(repoRoot, projectDir),
+    ...SHARED_INPUTS,
+    ...TYPE_INPUTS[metadata.type],
+  ];
+  const hash = hashPaths(repoRoot, inputs);
+  return context ? crypto.createHash('sha256').update(`${hash}\0${context}`).digest('hex') : hash;
+}
+
+export function hashBuildOutput(buildDir: string): string {
+  return hashPaths(buildDir, ['.']);
+}
+
+function manifestPath(buildsDir: string): string {
+  return path.join(buildsDir, MANIFEST_FILENAME);
+}
+
+export function loadBuildManifest(buildsDir: string): BuildManifest {
+  const file = manifestPath(buildsDir);
+  if (fs.existsSync(file)) {
+    try {
+      const manifest = JSON.parse(fs.readFileSync(file, 'utf-8')) as BuildManifest;
+      if (manifest.version === MANIFEST_VERSION && manifest.projects) {
+        return manifest;
+      }
+    } catch {
+      // A corrupt manifest just means everything gets rebuilt
+    }
+  }
+  return { version: MANIFEST_VERSION, projects: {} };
+}
+
+export function saveBuildManifest(buildsDir: string, manifest: BuildManifest): void {
+  if (!fs.existsSync(buildsDir)) {
+    fs.mkdirSync(buildsDir, { recursive: true });
+  }
+  fs.writeFileSync(manifestPath(buildsDir), JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * A project is up to date when its inputs hash to the recorded value and its
+ * build directory still contains exactly what the last build produced.
+ */
+export function isUpToDate(
+  manifest: BuildManifest,
+  projectName: string,
+  inputHash: string,
+  buildDir: string,
+): boolean {
+  const record = manifest.projects[projectName];
+  if (!record || record.inputHash !== inputHash || !fs.existsSync(buildDir)) {
+    return false;
+  }
+  return record.outputHash === hashBuildOutput(buildDir);
+}
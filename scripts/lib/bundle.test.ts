@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { strToU8, zipSync } from 'fflate';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BundleError, detectEntry, extractZip, listBundleFiles } from './bundle.ts';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundle-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Writes a zip of `files` (path → text) and returns its path.
+ */
+function writeZip(files: Record<string, string>): string {
+  const zipPath = path.join(dir, 'bundle.zip');
+  fs.writeFileSync(zipPath, zipSync(Object.fromEntries(
+    Object.entries(files).map(([name, content]) => [name, strToU8(content)]),
+  )));
+  return zipPath;
+}
+
+describe('extractZip', () => {
+  it('extracts files and drops a single top-level folder', () => {
+    const dest = path.join(dir, 'out');
+    extractZip(writeZip({
+      'report/index.html': '<h1>Report</h1>',
+      'report/images/chart.png': 'png',
+    }), dest);
+    expect(listBundleFiles(dest)).toEqual(['images/chart.png', 'index.html']);
+    expect(fs.readFileSync(path.join(dest, 'index.html'), 'utf-8')).toBe('<h1>Report</h1>');
+  });
+
+  it('keeps the layout when files sit at the top level', () => {
+    const dest = path.join(dir, 'out');
+    extractZip(writeZip({ 'index.md': '# Notes', 'img/a.png': 'png' }), dest);
+    expect(listBundleFiles(dest)).toEqual(['img/a.png', 'index.md']);
+  });
+
+  it('leaves out archive and OS clutter', () => {
+    const dest = path.join(dir, 'out');
+    extractZip(writeZip({
+      'site/index.html': '',
+      'site/.DS_Store': '',
+      '__MACOSX/site/._index.html': '',
+    }), dest);
+    expect(listBundleFiles(dest)).toEqual(['index.html']);
+  });
+
+  it('refuses entries that would escape the destination', () => {
+    const dest = path.join(dir, 'out');
+    const zipPath = writeZip({ 'index.html': '', '../evil.html': '' });
+    expect(() => extractZip(zipPath, dest)).toThrow(BundleError);
+    expect(() => extractZip(zipPath, dest)).toThrow('refusing to extract ../evil.html: path escapes the archive');
+    expect(fs.existsSync(path.join(dir, 'evil.html'))).toBe(false);
+  });
+
+  it('reports a corrupt archive as a BundleError naming the file', () => {
+    const zipPath = path.join(dir, 'broken.zip');
+    fs.writeFileSync(zipPath, 'not a zip');
+    expect(() => extractZip(zipPath, path.join(dir, 'out'))).toThrow(BundleError);
+    expect(() => extractZip(zipPath, path.join(dir, 'out'))).toThrow(/^Invalid bundle .*broken\.zip: not a readable \.zip archive/);
+  });
+});
+
+describe('detectEntry', () => {
+  const supported = ['.tsx', '.html', '.md'];
+
+  it('prefers a top-level index file', () => {
+    expect(detectEntry(['about.html', 'index.html', 'index.md'], supported)).toBe('index.html');
+    expect(detectEntry(['index.tsx', 'index.html'], supported)).toBe('index.tsx');
+  });
+
+  it('falls back to the only top-level file with a supported extension', () => {
+    expect(detectEntry(['report.html', 'styles.css', 'pages/index.html'], supported)).toBe('report.html');
+  });
+
+  it('gives up when the entry is ambiguous or missing', () => {
+    expect(detectEntry(['a.html', 'b.html'], supported)).toBeNull();
+    expect(detectEntry(['docs/index.html', 'notes.txt'], supported)).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Import Bundles
+ * Helpers for importing a directory or .zip archive as a multi-file project
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { unzipSync, type Unzipped } from 'fflate';
+
+// Archive and OS clutter that never belongs in a project
+const IGNORED_NAMES = new Set(['__MACOSX', '.DS_Store', 'Thumbs.db', 'desktop.ini']);
+
+// Entry files, in order of preference
+const INDEX_FILES = ['index.tsx', 'index.html', 'index.md'];
+
+export class BundleError extends Error {
+  constructor(file: string, message: string) {
+    super(`Invalid bundle ${path.relative(process.cwd(), file) || file}: ${message}`);
+    this.name = 'BundleError';
+  }
+}
+
+function isIgnored(relativePath: string): boolean {
+  return relativePath.split('/').some(part => IGNORED_NAMES.has(part));
+}
+
+/**
+ * Lists every file under `dir` as a forward-slash path relative to it.
+ */
+export function listBundleFiles(dir: string, prefix = ''): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (isIgnored(relativePath)) continue;
+    if (entry.isDirectory()) {
+      files.push(...listBundleFiles(path.join(dir, entry.name), relativePath));
+    } else {
+      files.push(relativePath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Picks the bundle's entry file: a top-level index.tsx, index.html or index.md,
+ * otherwise the only top-level file with a supported extension.
+ */
+export function detectEntry(files: string[], supportedExtensions: string[]): string | null {
+  const topLevel = files.filter(file => !file.includes('/'));
+
+  for (const index of INDEX_FILES) {
+    if (topLevel.includes(index) && supportedExtensions.includes(path.extname(index))) {
+      return index;
+    }
+  }
+
+  const candidates = topLevel.filter(file => supportedExtensions.includes(path.extname(file)));
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+/**
+ * Extracts a .zip archive into `destDir`. When every file sits under a single
+ * top-level folder (the usual "Compress folder" layout) that folder is dropped.
+ * Throws a BundleError for a corrupt archive or an entry outside `destDir`.
+ */
+export function extractZip(zipPath: string, destDir: string): void {
+  let entries: Unzipped;
+  try {
+    entries = unzipSync(new Uint8Array(fs.readFileSync(zipPath)));
+  } catch (error) {
+    throw new BundleError(zipPath, `not a readable .zip archive (${(error as Error).message})`);
+  }
+
+  const files = Object.entries(entries)
+    .filter(([name]) => !name.endsWith('/') && !isIgnored(name))
+    .map(([name, data]) => ({ name: name.replace(/\\/g, '/').replace(/^\/+/, ''), data }));
+
+  const roots = new Set(files.map(file => file.name.split('/')[0]));
+  const stripRoot = roots.size === 1 && files.every(file => file.name.includes('/'));
+
+  const resolvedDest = path.resolve(destDir);
+  for (const file of files) {
+    const relativePath = stripRoot ? file.name.slice(file.name.indexOf('/') + 1) : file.name;
+    const target = path.resolve(resolvedDest, relativePath);
+
+    // Refuse entries that would escape the destination ("zip slip")
+    if (!target.startsWith(resolvedDest + path.sep)) {
+      throw new BundleError(zipPath, `refusing to extract ${file.name}: path escapes the archive`);
+    }
+
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, file.data);
+  }
+}
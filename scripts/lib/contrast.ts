@@ -0,0 +1,409 @@
+/**
+ * Text Contrast
+ * Works out the text and background colours of elements in a parsed page, so
+ * the accessibility audit can flag text that is hard to read
+ *
+ * This is a deliberately small cascade, not a browser: it understands <style>
+ * rules made of tag, .class, #id and :root selectors joined by descendant
+ * combinators, inline style="" attributes and var() custom properties. Rules
+ * inside @media and other at-rules, pseudo-classes and other combinators are
+ * ignored, and anything it cannot resolve (gradients, background images,
+ * unknown colours) makes the element's colours unknown rather than guessed.
+ */
+
+import type { DefaultTreeAdapterMap } from 'parse5';
+
+type Element = DefaultTreeAdapterMap['element'];
+
+export interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface TextColors {
+  foreground: Rgba;
+  background: Rgba;
+  /** Whether any stylesheet or style attribute set either colour */
+  styled: boolean;
+  /** Large text (24px, or 18.66px bold) only needs 3:1 */
+  large: boolean;
+}
+
+interface Compound {
+  tag?: string;
+  id?: string;
+  classes: string[];
+}
+
+export interface StyleRule {
+  selector: Compound[];   // Descendant chain, outermost first
+  specificity: number;
+  order: number;
+  declarations: [string, string][];
+}
+
+interface ElementStyle {
+  own: Map<string, string>;        // Declared on the element itself
+  computed: Map<string, string>;   // Own plus inherited properties
+  fontSize: number;                // px
+  bold: boolean;
+}
+
+const INHERITED = new Set(['color', 'font-size', 'font-weight']);
+
+// Browser defaults for headings, in em of the parent's size
+const HEADING_SIZES: Record<string, number> = { h1: 2, h2: 1.5, h3: 1.17, h4: 1, h5: 0.83, h6: 0.67 };
+const BOLD_TAGS = new Set(['b', 'strong', 'th', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000', white: '#ffffff', red: '#ff0000', green: '#008000', blue: '#0000ff',
+  gray: '#808080', grey: '#808080', silver: '#c0c0c0', yellow: '#ffff00', orange: '#ffa500',
+  purple: '#800080', navy: '#000080', maroon: '#800000', teal: '#008080', olive: '#808000',
+  lime: '#00ff00', aqua: '#00ffff', cyan: '#00ffff', fuchsia: '#ff00ff', magenta: '#ff00ff',
+  gold: '#ffd700', pink: '#ffc0cb', brown: '#a52a2a', crimson: '#dc143c', darkgray: '#a9a9a9',
+  darkgrey: '#a9a9a9', lightgray: '#d3d3d3', lightgrey: '#d3d3d3', dimgray: '#696969',
+  dimgrey: '#696969', whitesmoke: '#f5f5f5', gainsboro: '#dcdcdc', beige: '#f5f5dc',
+  ivory: '#fffff0', linen: '#faf0e6', wheat: '#f5deb3', tan: '#d2b48c', coral: '#ff7f50',
+  tomato: '#ff6347', salmon: '#fa8072', khaki: '#f0e68c', darkred: '#8b0000',
+  darkgreen: '#006400', darkblue: '#00008b', steelblue: '#4682b4', slategray: '#708090',
+  slategrey: '#708090', darkslategray: '#2f4f4f', darkslategrey: '#2f4f4f', midnightblue: '#191970',
+};
+
+const WHITE: Rgba = { r: 255, g: 255, b: 255, a: 1 };
+const BLACK: Rgba = { r: 0, g: 0, b: 0, a: 1 };
+
+function attribute(element: Element, name: string): string | undefined {
+  return element.attrs.find(attr => attr.name === name)?.value;
+}
+
+function parentElement(element: Element): Element | null {
+  const parent = element.parentNode;
+  return parent && 'tagName' in parent ? parent : null;
+}
+
+export function parseColor(value: string): Rgba | null {
+  const color = value.trim().toLowerCase();
+  if (color === 'transparent') {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+  const named = NAMED_COLORS[color];
+  if (named) {
+    return parseColor(named);
+  }
+
+  const hex = color.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length <= 4) digits = [...digits].map(d => d + d).join('');
+    const channel = (i: number) => parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+    return { r: channel(0), g: channel(1), b: channel(2), a: digits.length === 8 ? channel(3) / 255 : 1 };
+  }
+
+  const fn = color.match(/^(rgba?|hsla?)\(\s*([^)]*)\)$/);
+  if (!fn) {
+    return null;
+  }
+  const parts = fn[2].split(/\s*[,/]\s*|\s+/).filter(Boolean);
+  if (parts.length < 3 || parts.length > 4) {
+    return null;
+  }
+  const number = (part: string, scale: number) =>
+    part.endsWith('%') ? (parseFloat(part) / 100) * scale : parseFloat(part);
+  const alpha = parts[3] !== undefined ? number(parts[3], 1) : 1;
+
+  if (fn[1].startsWith('rgb')) {
+    const [r, g, b] = parts.slice(0, 3).map(part => number(part, 255));
+    return [r, g, b, alpha].some(isNaN) ? null : { r, g, b, a: alpha };
+  }
+
+  // hsl(): hue in degrees, saturation and lightness in percent
+  const h = (((parseFloat(parts[0]) % 360) + 360) % 360) / 360;
+  const s = parseFloat(parts[1]) / 100;
+  const l = parseFloat(parts[2]) / 100;
+  if ([h, s, l, alpha].some(isNaN)) {
+    return null;
+  }
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const hue = (t: number) => {
+    const x = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (x < 1 / 6) return p + (q - p) * 6 * x;
+    if (x < 1 / 2) return q;
+    if (x < 2 / 3) return p + (q - p) * (2 / 3 - x) * 6;
+    return p;
+  };
+  return { r: hue(h + 1 / 3) * 255, g: hue(h) * 255, b: hue(h - 1 / 3) * 255, a: alpha };
+}
+
+function relativeLuminance(color: Rgba): number {
+  const linear = (channel: number) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linear(color.r) + 0.7152 * linear(color.g) + 0.0722 * linear(color.b);
+}
+
+/**
+ * WCAG contrast ratio between two opaque colours, from 1 to 21.
+ */
+export function contrastRatio(a: Rgba, b: Rgba): number {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+/**
+ * Paints `top` over an opaque `bottom`.
+ */
+function composite(top: Rgba, bottom: Rgba): Rgba {
+  const mix = (t: number, b: number) => t * top.a + b * (1 - top.a);
+  return { r: mix(top.r, bottom.r), g: mix(top.g, bottom.g), b: mix(top.b, bottom.b), a: 1 };
+}
+
+export function formatColor(color: Rgba): string {
+  return `#${[color.r, color.g, color.b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Removes comments and at-rule blocks (@media, @supports, @keyframes, ...),
+ * whose rules only apply conditionally.
+ */
+function stripAtRules(css: string): string {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  let output = '';
+  let i = 0;
+  while (i < source.length) {
+    if (source[i] !== '@') {
+      output += source[i++];
+      continue;
+    }
+    const brace = source.indexOf('{', i);
+    const semicolon = source.indexOf(';', i);
+    if (semicolon !== -1 && (brace === -1 || semicolon < brace)) {
+      i = semicolon + 1;   // @import, @charset
+      continue;
+    }
+    if (brace === -1) break;
+    let depth = 0;
+    let j = brace;
+    for (; j < source.length; j++) {
+      if (source[j] === '{') depth++;
+      if (source[j] === '}' && --depth === 0) break;
+    }
+    i = j + 1;
+  }
+  return output;
+}
+
+function parseDeclarations(block: string): [string, string][] {
+  const declarations: [string, string][] = [];
+  for (const declaration of block.split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) continue;
+    const property = declaration.slice(0, colon).trim();
+    const value = declaration.slice(colon + 1).replace(/!important/i, '').trim();
+    if (property && value) {
+      declarations.push([property.startsWith('--') ? property : property.toLowerCase(), value]);
+    }
+  }
+  return declarations;
+}
+
+/**
+ * Parses a selector into its descendant chain, or null if it uses anything
+ * this cascade does not model.
+ */
+function parseSelector(selector: string): Compound[] | null {
+  const chain: Compound[] = [];
+  for (const part of selector.replace(/:root\b/g, 'html').trim().split(/\s+/)) {
+    const match = part.match(/^([a-z][a-z0-9-]*|\*)?((?:[.#][\w-]+)*)$/i);
+    if (!match || (!match[1] && !match[2])) {
+      return null;
+    }
+    const compound: Compound = { classes: [] };
+    if (match[1] && match[1] !== '*') compound.tag = match[1].toLowerCase();
+    for (const token of match[2].match(/[.#][\w-]+/g) ?? []) {
+      if (token[0] === '#') compound.id = token.slice(1);
+      else compound.classes.push(token.slice(1));
+    }
+    chain.push(compound);
+  }
+  return chain;
+}
+
+export function parseStylesheet(css: string, firstOrder = 0): StyleRule[] {
+  const rules: StyleRule[] = [];
+  let order = firstOrder;
+  for (const match of stripAtRules(css).matchAll(/([^{}]+)\{([^{}]*)\}/g)) {
+    const declarations = parseDeclarations(match[2]);
+    if (declarations.length === 0) continue;
+    for (const selectorText of match[1].split(',')) {
+      const selector = parseSelector(selectorText);
+      if (!selector) continue;
+      const specificity = selector.reduce(
+        (total, c) => total + (c.id ? 10000 : 0) + c.classes.length * 100 + (c.tag ? 1 : 0), 0);
+      rules.push({ selector, specificity, order: order++, declarations });
+    }
+  }
+  return rules;
+}
+
+function matchesCompound(element: Element, compound: Compound): boolean {
+  if (compound.tag && element.tagName !== compound.tag) return false;
+  if (compound.id && attribute(element, 'id') !== compound.id) return false;
+  if (compound.classes.length > 0) {
+    const classes = new Set((attribute(element, 'class') ?? '').split(/\s+/));
+    if (!compound.classes.every(c => classes.has(c))) return false;
+  }
+  return true;
+}
+
+function matchesRule(element: Element, rule: StyleRule): boolean {
+  const chain = rule.selector;
+  if (!matchesCompound(element, chain[chain.length - 1])) {
+    return false;
+  }
+  let ancestor = parentElement(element);
+  for (let i = chain.length - 2; i >= 0; i--) {
+    while (ancestor && !matchesCompound(ancestor, chain[i])) {
+      ancestor = parentElement(ancestor);
+    }
+    if (!ancestor) return false;
+    ancestor = parentElement(ancestor);
+  }
+  return true;
+}
+
+/**
+ * Substitutes var(--name, fallback) references, or returns null when one
+ * cannot be resolved.
+ */
+function resolveVars(value: string, computed: Map<string, string>, depth = 0): string | null {
+  if (!value.includes('var(')) {
+    return value;
+  }
+  if (depth > 10) {
+    return null;
+  }
+  const match = value.match(/var\(\s*(--[\w-]+)\s*(?:,\s*((?:[^()]|\([^()]*\))*))?\)/);
+  if (!match) {
+    return null;
+  }
+  const replacement = computed.get(match[1]) ?? match[2]?.trim();
+  if (replacement === undefined) {
+    return null;
+  }
+  return resolveVars(value.replace(match[0], replacement), computed, depth + 1);
+}
+
+function parseFontSize(value: string, parentSize: number): number | null {
+  const match = value.match(/^([\d.]+)(px|pt|rem|em|%)$/);
+  if (!match) return null;
+  const size = parseFloat(match[1]);
+  switch (match[2]) {
+    case 'px': return size;
+    case 'pt': return (size * 4) / 3;
+    case 'rem': return size * 16;
+    case 'em': return size * parentSize;
+    default: return (size / 100) * parentSize;
+  }
+}
+
+/**
+ * Computes text colours for elements of one page, caching styles as it goes.
+ */
+export function createContrastResolver(rules: StyleRule[]): (element: Element) => TextColors | null {
+  const styles = new Map<Element, ElementStyle>();
+  const sortedRules = [...rules].sort((a, b) => a.specificity - b.specificity || a.order - b.order);
+
+  function styleOf(element: Element): ElementStyle {
+    const cached = styles.get(element);
+    if (cached) {
+      return cached;
+    }
+
+    const parent = parentElement(element);
+    const parentStyle = parent ? styleOf(parent) : null;
+    const own = new Map<string, string>();
+    for (const rule of sortedRules) {
+      if (matchesRule(element, rule)) {
+        for (const [property, value] of rule.declarations) own.set(property, value);
+      }
+    }
+    for (const [property, value] of parseDeclarations(attribute(element, 'style') ?? '')) {
+      own.set(property, value);
+    }
+
+    const computed = new Map<string, string>();
+    for (const [property, value] of parentStyle?.computed ?? []) {
+      if (INHERITED.has(property) || property.startsWith('--')) computed.set(property, value);
+    }
+    for (const [property, value] of own) {
+      computed.set(property, value);
+    }
+
+    const parentSize = parentStyle?.fontSize ?? 16;
+    const declaredSize = own.get('font-size');
+    const fontSize = (declaredSize ? parseFontSize(resolveVars(declaredSize, computed) ?? '', parentSize) : null)
+      ?? (HEADING_SIZES[element.tagName] ?? 1) * parentSize;
+
+    const weight = own.get('font-weight');
+    const bold = weight
+      ? /bold/.test(weight) || parseInt(weight, 10) >= 600
+      : BOLD_TAGS.has(element.tagName) || (parentStyle?.bold ?? false);
+
+    const style = { own, computed, fontSize, bold };
+    styles.set(element, style);
+    return style;
+  }
+
+  /**
+   * The opaque colour behind an element, or null if it cannot be known.
+   */
+  function backgroundOf(element: Element): { color: Rgba; styled: boolean } | null {
+    const layers: Rgba[] = [];
+    for (let current: Element | null = element; current; current = parentElement(current)) {
+      const { own, computed } = styleOf(current);
+      const declared = own.get('background-color') ?? own.get('background');
+      if (!declared) continue;
+
+      const value = resolveVars(declared, computed);
+      if (value === null || /url\(|gradient\(/.test(value)) return null;
+      if (value === 'none') continue;
+      const color = parseColor(value) ?? value.split(/\s+/).map(parseColor).find(Boolean) ?? null;
+      if (!color) return null;
+      if (color.a === 0) continue;
+      layers.push(color);
+      if (color.a === 1) break;
+    }
+
+    let color = WHITE;
+    for (const layer of layers.reverse()) {
+      color = composite(layer, color);
+    }
+    return { color, styled: layers.length > 0 };
+  }
+
+  return element => {
+    const style = styleOf(element);
+    const background = backgroundOf(element);
+    if (!background) {
+      return null;
+    }
+
+    const declared = style.computed.get('color');
+    const value = declared ? resolveVars(declared, style.computed) : null;
+    const color = value === null ? (declared ? null : BLACK) : parseColor(value);
+    if (!color) {
+      return null;
+    }
+
+    return {
+      foreground: composite(color, background.color),
+      background: background.color,
+      styled: background.styled || declared !== undefined,
+      large: style.fontSize >= 24 || (style.fontSize >= 18.66 && style.bold),
+    };
+  };
+}
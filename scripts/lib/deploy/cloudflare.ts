@@ -0,0 +1,28 @@
+/**
+ * Cloudflare cache purge, run after deploying to the live server
+ */
+
+export type PurgeResult = 'purged' | 'failed' | 'skipped';
+
+export async function purgeCloudflareCache(): Promise<PurgeResult> {
+  const zoneId = process.env.CF_ZONE_ID;
+  const apiToken = process.env.CF_API_TOKEN;
+  if (!zoneId || !apiToken) {
+    return 'skipped';
+  }
+
+  try {
+    const response = await fetch(`https://api.cloudflare.com/client/v4/zones/${zoneId}/purge_cache`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ purge_everything: true }),
+    });
+    const body = await response.json() as { success?: boolean };
+    return body.success ? 'purged' : 'failed';
+  } catch {
+    return 'failed';
+  }
+}
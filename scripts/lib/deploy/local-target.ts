@@ -0,0 +1,57 @@
+/**
+ * Local Deploy Target
+ * Publishes into a directory on this machine, for staging and tests
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parentDirs, type DeployTarget } from './target.ts';
+
+export interface LocalTargetOptions {
+  rootDir: string;
+}
+
+export function createLocalTarget(options: LocalTargetOptions): DeployTarget {
+  const rootDir = path.resolve(options.rootDir);
+  const resolve = (relativePath: string) => path.join(rootDir, relativePath);
+
+  return {
+    name: 'local',
+    location: rootDir,
+    purgesCdn: false,
+
+    async ensureDir(relativeDir) {
+      fs.mkdirSync(resolve(relativeDir), { recursive: true });
+    },
+
+    async uploadFile(localFile, relativePath) {
+      const target = resolve(relativePath);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.copyFileSync(localFile, target);
+    },
+
+    async uploadFiles(files) {
+      for (const { localFile, relativePath } of files) {
+        await this.uploadFile(localFile, relativePath);
+      }
+    },
+
+    async deleteFiles(relativePaths) {
+      for (const relativePath of relativePaths) {
+        fs.rmSync(resolve(relativePath), { force: true });
+      }
+      // Deepest first, so nested empty directories are removed too
+      for (const dir of parentDirs(relativePaths).reverse()) {
+        const target = resolve(dir);
+        if (fs.existsSync(target) && fs.readdirSync(target).length === 0) {
+          fs.rmdirSync(target);
+        }
+      }
+    },
+
+    async readFile(relativePath) {
+      const target = resolve(relativePath);
+      return fs.existsSync(target) ? fs.readFileSync(target, 'utf-8') : null;
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createLocalTarget } from './local-target.ts';
+import {
+  createLocalManifest,
+  DEPLOY_MANIFEST_FILENAME,
+  planDeploy,
+  readRemoteManifest,
+  writeRemoteManifest,
+  type DeployManifest,
+} from './manifest.ts';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-manifest-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function manifest(files: Record<string, string>): DeployManifest {
+  return { version: 1, deployedAt: '2025-01-01T00:00:00.000Z', files };
+}
+
+describe('planDeploy', () => {
+  it('sorts files into add, update, delete and unchanged', () => {
+    const local = manifest({ 'index.html': 'new', 'app.js': 'same', 'logo.png': 'added' });
+    const remote = manifest({ 'index.html': 'old', 'app.js': 'same', 'old.css': 'gone' });
+
+    expect(planDeploy(local, remote)).toEqual({
+      add: ['logo.png'],
+      update: ['index.html'],
+      delete: ['old.css'],
+      unchanged: ['app.js'],
+      hasRemoteManifest: true,
+    });
+  });
+
+  it('uploads unchanged files again with force', () => {
+    const local = manifest({ 'index.html': 'same' });
+    expect(planDeploy(local, manifest({ 'index.html': 'same' }), true)).toMatchObject({
+      update: ['index.html'],
+      unchanged: [],
+    });
+  });
+
+  it('adds everything and deletes nothing without a remote manifest', () => {
+    expect(planDeploy(manifest({ 'index.html': 'a', 'README.txt': 'b' }), null)).toEqual({
+      add: ['index.html', 'README.txt'],
+      update: [],
+      delete: [],
+      unchanged: [],
+      hasRemoteManifest: false,
+    });
+  });
+});
+
+describe('deploy manifests on the local target', () => {
+  it('hashes the build and reads back what was written', async () => {
+    const buildDir = path.join(dir, 'build');
+    fs.mkdirSync(path.join(buildDir, 'assets'), { recursive: true });
+    fs.writeFileSync(path.join(buildDir, 'index.html'), '<html></html>');
+    fs.writeFileSync(path.join(buildDir, 'assets', 'app.js'), 'run()');
+    const target = createLocalTarget({ rootDir: path.join(dir, 'staging') });
+
+    const local = createLocalManifest(buildDir);
+    expect(Object.keys(local.files)).toEqual(['assets/app.js', 'index.html']);
+    expect(await readRemoteManifest(target, 'project')).toBeNull();
+
+    await writeRemoteManifest(target, 'project', local);
+    expect(fs.existsSync(path.join(dir, 'staging', 'project', DEPLOY_MANIFEST_FILENAME))).toBe(true);
+    expect(await readRemoteManifest(target, 'project')).toEqual(local);
+  });
+
+  it('ignores a manifest it cannot use', async () => {
+    const target = createLocalTarget({ rootDir: dir });
+    fs.mkdirSync(path.join(dir, 'project'));
+    fs.writeFileSync(path.join(dir, 'project', DEPLOY_MANIFEST_FILENAME), '{ "version": 99, "files": {} }');
+    expect(await readRemoteManifest(target, 'project')).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Deploy Manifests
+ * Each deployed project carries a .deploy-manifest.json listing the hash of
+ * every file that was uploaded. Comparing it with the local build gives the
+ * set of files to add, update and delete on the next deploy.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { DeployTarget } from './target.ts';
+
+export const DEPLOY_MANIFEST_FILENAME = '.deploy-manifest.json';
+
+const MANIFEST_VERSION = 1;
+
+export interface DeployManifest {
+  version: number;
+  deployedAt: string;
+  files: Record<string, string>;   // Path relative to the project -> sha256
+}
+
+export interface DeployPlan {
+  add: string[];
+  update: string[];
+  delete: string[];
+  unchanged: string[];
+  /** False when the target had no manifest, so deletions are unknown */
+  hasRemoteManifest: boolean;
+}
+
+function hashFile(file: string): string {
+  return crypto.createHash('sha256').update(fs.readFileSync(file)).digest('hex');
+}
+
+function listFiles(dir: string, prefix = ''): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...listFiles(path.join(dir, entry.name), relativePath));
+    } else {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+export function createLocalManifest(buildDir: string): DeployManifest {
+  const files: Record<string, string> = {};
+  for (const file of listFiles(buildDir).sort()) {
+    files[file] = hashFile(path.join(buildDir, file));
+  }
+  return { version: MANIFEST_VERSION, deployedAt: new Date().toISOString(), files };
+}
+
+/**
+ * Reads the manifest left by the previous deploy, or null if there is none
+ * (first deploy, or deployed before manifests existed).
+ */
+export async function readRemoteManifest(target: DeployTarget, projectName: string): Promise<DeployManifest | null> {
+  const content = await target.readFile(`${projectName}/${DEPLOY_MANIFEST_FILENAME}`);
+  if (!content) {
+    return null;
+  }
+  try {
+    const manifest = JSON.parse(content) as DeployManifest;
+    return manifest.version === MANIFEST_VERSION && manifest.files ? manifest : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeRemoteManifest(target: DeployTarget, projectName: string, manifest: DeployManifest): Promise<void> {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-'));
+  try {
+    const manifestPath = path.join(tempDir, DEPLOY_MANIFEST_FILENAME);
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+    await target.uploadFile(manifestPath, `${projectName}/${DEPLOY_MANIFEST_FILENAME}`);
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Compares the local build with the last deployed manifest. With `force`,
+ * every local file is uploaded again regardless of its hash.
+ */
+export function planDeploy(local: DeployManifest, remote: DeployManifest | null, force = false): DeployPlan {
+  const plan: DeployPlan = { add: [], update: [], delete: [], unchanged: [], hasRemoteManifest: remote !== null };
+  const remoteFiles = remote?.files ?? {};
+
+  for (const [file, hash] of Object.entries(local.files)) {
+    if (!(file in remoteFiles)) {
+      plan.add.push(file);
+    } else if (force || remoteFiles[file] !== hash) {
+      plan.update.push(file);
+    } else {
+      plan.unchanged.push(file);
+    }
+  }
+  for (const file of Object.keys(remoteFiles)) {
+    if (!(file in local.files)) {
+      plan.delete.push(file);
+    }
+  }
+  return plan;
+}
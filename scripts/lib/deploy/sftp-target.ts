@@ -0,0 +1,124 @@
+/**
+ * SFTP Deploy Target
+ * Publishes to the web server over SFTP/SCP (the server is chrooted, so there
+ * is no shell access: directories, batch uploads and deletes go through sftp
+ * batches, single files are copied with scp)
+ */
+
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { parentDirs, type DeployTarget } from './target.ts';
+
+const execFileAsync = promisify(execFile);
+
+// How sftp reports a missing remote file, e.g. for get: 'File "/x" not found.'
+const NOT_FOUND_PATTERN = /not found|No such file/i;
+
+export interface SftpTargetOptions {
+  host: string;
+  user: string;
+  remoteDir: string;
+}
+
+/**
+ * A failed sftp batch, with what sftp printed to stderr.
+ */
+export class SftpBatchError extends Error {
+  readonly stderr: string;
+
+  constructor(destination: string, stderr: string, cause: Error) {
+    super(`sftp to ${destination} failed: ${stderr.trim() || cause.message}`);
+    this.name = 'SftpBatchError';
+    this.stderr = stderr;
+  }
+}
+
+/**
+ * Runs an sftp batch. Commands prefixed with "-" may fail without aborting it
+ * (used for mkdir on directories that already exist, and rm/rmdir on paths
+ * that are already gone or still in use).
+ */
+function runSftpBatch(destination: string, commands: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = execFile('sftp', ['-q', '-b', '-', destination], (error, _stdout, stderr) => {
+      if (error) reject(new SftpBatchError(destination, String(stderr), error));
+      else resolve();
+    });
+    child.stdin?.end(`${commands.join('\n')}\nbye\n`);
+  });
+}
+
+/**
+ * Quotes a path for an sftp batch command.
+ */
+function quote(remotePath: string): string {
+  return `"${remotePath.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+export function createSftpTarget(options: SftpTargetOptions): DeployTarget {
+  const destination = `${options.user}@${options.host}`;
+  const remotePath = (relativePath: string) =>
+    path.posix.join(options.remoteDir, relativePath.split(path.sep).join('/'));
+
+  return {
+    name: 'sftp',
+    location: `${destination}:${options.remoteDir}`,
+    purgesCdn: true,
+
+    async ensureDir(relativeDir) {
+      // Create every level, as the chrooted server has no "mkdir -p"
+      const commands = [`-mkdir ${quote(options.remoteDir)}`];
+      let current = '';
+      for (const part of relativeDir.split(/[\\/]/).filter(Boolean)) {
+        current = current ? `${current}/${part}` : part;
+        commands.push(`-mkdir ${quote(remotePath(current))}`);
+      }
+      await runSftpBatch(destination, commands);
+    },
+
+    async uploadFile(localFile, relativePath) {
+      await execFileAsync('scp', ['-q', localFile, `${destination}:${remotePath(relativePath)}`]);
+    },
+
+    async uploadFiles(files) {
+      if (files.length === 0) return;
+      // One sftp session for the whole batch instead of an scp per file
+      const commands = [
+        ...parentDirs(files.map(file => file.relativePath)).map(dir => `-mkdir ${quote(remotePath(dir))}`),
+        ...files.map(file => `put ${quote(file.localFile)} ${quote(remotePath(file.relativePath))}`),
+      ];
+      await runSftpBatch(destination, commands);
+    },
+
+    async deleteFiles(relativePaths) {
+      if (relativePaths.length === 0) return;
+      const commands = [
+        ...relativePaths.map(file => `-rm ${quote(remotePath(file))}`),
+        // rmdir only succeeds on empty directories, which is exactly what we want
+        ...parentDirs(relativePaths).reverse().map(dir => `-rmdir ${quote(remotePath(dir))}`),
+      ];
+      await runSftpBatch(destination, commands);
+    },
+
+    async readFile(relativePath) {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-'));
+      const localFile = path.join(tempDir, path.posix.basename(relativePath));
+      try {
+        await runSftpBatch(destination, [`get ${quote(remotePath(relativePath))} ${quote(localFile)}`]);
+        return fs.readFileSync(localFile, 'utf-8');
+      } catch (error) {
+        // Only a missing file means "no such file"; a failed connection must not
+        // look like an empty server
+        if (error instanceof SftpBatchError && NOT_FOUND_PATTERN.test(error.stderr)) {
+          return null;
+        }
+        throw error;
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
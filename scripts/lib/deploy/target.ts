@@ -0,0 +1,62 @@
+/**
+ * Deploy Targets
+ * A target is somewhere built projects are published to. Paths passed to a
+ * target are relative to its root (the generated-docs directory on the server,
+ * or a local staging directory).
+ *
+ * Selected with --target=, else deploy.target in site.config.json (or
+ * DEPLOY_TARGET): "sftp" or "local". Their settings come from the same file.
+ */
+
+import type { DeployConfig } from '../site.ts';
+import { createLocalTarget } from './local-target.ts';
+import { createSftpTarget } from './sftp-target.ts';
+
+export interface DeployTarget {
+  readonly name: string;
+  /** Human-readable location, e.g. claude@zx:/public_html/generated-docs */
+  readonly location: string;
+  /** Whether deploying here should purge the CDN cache afterwards */
+  readonly purgesCdn: boolean;
+
+  ensureDir(relativeDir: string): Promise<void>;
+  uploadFile(localFile: string, relativePath: string): Promise<void>;
+  /** Uploads several files, creating their parent directories as needed */
+  uploadFiles(files: FileUpload[]): Promise<void>;
+  /** Deletes files (missing ones are ignored) and any directories left empty */
+  deleteFiles(relativePaths: string[]): Promise<void>;
+  /** Returns a file's contents, or null if it does not exist */
+  readFile(relativePath: string): Promise<string | null>;
+}
+
+export interface FileUpload {
+  localFile: string;
+  relativePath: string;
+}
+
+/**
+ * Parent directories of the given paths, shallowest first.
+ */
+export function parentDirs(relativePaths: string[]): string[] {
+  const dirs = new Set<string>();
+  for (const relativePath of relativePaths) {
+    const parts = relativePath.split('/').slice(0, -1);
+    for (let i = 1; i <= parts.length; i++) {
+      dirs.add(parts.slice(0, i).join('/'));
+    }
+  }
+  return [...dirs].sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+}
+
+export const DEPLOY_TARGETS = ['sftp', 'local'];
+
+export function createDeployTarget(name: string, config: DeployConfig): DeployTarget {
+  switch (name) {
+    case 'sftp':
+      return createSftpTarget(config.sftp);
+    case 'local':
+      return createLocalTarget({ rootDir: config.localDir });
+    default:
+      throw new Error(`Unknown deploy target "${name}" (expected one of: ${DEPLOY_TARGETS.join(', ')})`);
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Feed and Sitemap
+ * Renders builds/feed.xml (Atom) and builds/sitemap.xml from project metadata
+ *
+ * Only listed projects are included (no drafts or unlisted projects). Feed
+ * entries are dated by `updated`, falling back to `published`, then to the
+ * time of the project's last build; projects that were never built are left
+ * out of the feed, but still appear in the sitemap.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadBuildManifest } from './build-manifest.ts';
+import { escapeHtml as escapeXml } from './html.ts';
+import { isListed, loadAllProjectMetadata, type ProjectMetadata } from './metadata.ts';
+import { SITE_DESCRIPTION, SITE_NAME } from './site.ts';
+
+export interface FeedReport {
+  entries: number;
+  buildDated: string[]; // Listed projects without a published/updated date, dated by their last build
+  undated: string[];   // Listed projects left out of the feed for lack of any date
+}
+
+/**
+ * Metadata dates may be plain YYYY-MM-DD; Atom needs a full RFC 3339 timestamp.
+ */
+function toTimestamp(date: string): string {
+  return date.length === 10 ? `${date}T00:00:00Z` : date;
+}
+
+function projectUrl(siteUrl: string, project: ProjectMetadata): string {
+  return `${siteUrl}/${encodeURIComponent(project.name)}/`;
+}
+
+function projectDate(project: ProjectMetadata): string | undefined {
+  return project.updated ?? project.published;
+}
+
+function renderEntry(siteUrl: string, project: ProjectMetadata): string {
+  const url = escapeXml(projectUrl(siteUrl, project));
+  const lines = [
+    '  <entry>',
+    `    <title>${escapeXml(project.title)}</title>`,
+    `    <id>${url}</id>`,
+    `    <link rel="alternate" type="text/html" href="${url}"/>`,
+    `    <updated>${escapeXml(toTimestamp(projectDate(project)!))}</updated>`,
+  ];
+  if (project.published) {
+    lines.push(`    <published>${escapeXml(toTimestamp(project.published))}</published>`);
+  }
+  if (project.author) {
+    lines.push(`    <author><name>${escapeXml(project.author)}</name></author>`);
+  }
+  lines.push(`    <summary>${escapeXml(project.description)}</summary>`);
+  for (const tag of project.tags ?? []) {
+    lines.push(`    <category term="${escapeXml(tag)}"/>`);
+  }
+  lines.push('  </entry>');
+  return lines.join('\n');
+}
+
+/**
+ * Newest first. `projects` must already be filtered to dated, listed projects.
+ */
+export function renderFeed(projects: ProjectMetadata[], siteUrl: string): string {
+  const entries = [...projects].sort((a, b) =>
+    Date.parse(toTimestamp(projectDate(b)!)) - Date.parse(toTimestamp(projectDate(a)!)));
+  const updated = entries.length > 0 ? toTimestamp(projectDate(entries[0])!) : new Date().toISOString();
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(SITE_NAME)}</title>
+  <subtitle>${escapeXml(SITE_DESCRIPTION)}</subtitle>
+  <id>${escapeXml(siteUrl)}/</id>
+  <link rel="alternate" type="text/html" href="${escapeXml(siteUrl)}/"/>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(siteUrl)}/feed.xml"/>
+  <updated>${escapeXml(updated)}</updated>
+  <author><name>${escapeXml(SITE_NAME)}</name></author>
+${entries.map(project => renderEntry(siteUrl, project)).join('\n')}
+</feed>
+`;
+}
+
+export function renderSitemap(projects: ProjectMetadata[], siteUrl: string): string {
+  const urls = [`  <url>\n    <loc>${escapeXml(siteUrl)}/</loc>\n  </url>`];
+  for (const project of [...projects].sort((a, b) => a.name.localeCompare(b.name))) {
+    const date = projectDate(project);
+    const lastmod = date ? `\n    <lastmod>${escapeXml(date)}</lastmod>` : '';
+    urls.push(`  <url>\n    <loc>${escapeXml(projectUrl(siteUrl, project))}</loc>${lastmod}\n  </url>`);
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join('\n')}
+</urlset>
+`;
+}
+
+/**
+ * Writes builds/feed.xml and builds/sitemap.xml. `siteUrl` is the public URL of
+ * builds/, without a trailing slash. Projects whose project.json has no date
+ * are listed under the time of their last build.
+ */
+export function writeFeeds(projectsDir: string, buildsDir: string, siteUrl: string): FeedReport {
+  const manifest = loadBuildManifest(buildsDir);
+  const buildDated: string[] = [];
+  const listed = loadAllProjectMetadata(projectsDir).filter(isListed).map(project => {
+    const builtAt = manifest.projects[project.name]?.builtAt;
+    if (projectDate(project) || !builtAt) return project;
+    buildDated.push(project.name);
+    return { ...project, updated: builtAt };
+  });
+  const dated = listed.filter(project => projectDate(project));
+
+  if (!fs.existsSync(buildsDir)) {
+    fs.mkdirSync(buildsDir, { recursive: true });
+  }
+  fs.writeFileSync(path.join(buildsDir, 'feed.xml'), renderFeed(dated, siteUrl));
+  fs.writeFileSync(path.join(buildsDir, 'sitemap.xml'), renderSitemap(listed, siteUrl));
+
+  return {
+    entries: dated.length,
+    buildDated,
+    undated: listed.filter(project => !projectDate(project)).map(project => project.name),
+  };
+}
@@ -0,0 +1,385 @@
+/**
+ * Gallery Generator
+ * Renders builds/index.html, the landing page listing every project
+ *
+ * The gallery is regenerated from every projects/<name>/project.json on each build,
+ * so it always reflects what is currently in the projects/ directory. Its search
+ * box loads search-index.json (see search.ts) on first use and searches it in
+ * the browser. Projects in a series share one card that lists their parts in order.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { escapeHtml } from './html.ts';
+import { isListed, loadAllProjectMetadata, type ProjectMetadata, type ProjectType } from './metadata.ts';
+import { SEARCH_INDEX_FILENAME } from './search.ts';
+import { collectSeries, type Series } from './series.ts';
+import { SITE_DESCRIPTION, SITE_NAME } from './site.ts';
+
+type GalleryEntry =
+  | { kind: 'project'; project: ProjectMetadata }
+  | { kind: 'series'; series: Series };
+
+interface GallerySection {
+  heading: string;
+  entries: GalleryEntry[];
+  projects: number;
+}
+
+const SECTIONS: { heading: string; types: ProjectType[] }[] = [
+  { heading: 'Documents', types: ['html', 'markdown'] },
+  { heading: 'Interactive', types: ['tsx'] },
+];
+
+/**
+ * A series is listed under its first part's type, sorted by the lowest
+ * sortOrder among its parts and by its title.
+ */
+function sortKey(entry: GalleryEntry): { order: number; title: string } {
+  if (entry.kind === 'project') {
+    return { order: entry.project.sortOrder ?? Number.POSITIVE_INFINITY, title: entry.project.title };
+  }
+  const orders = entry.series.parts.map(part => part.sortOrder ?? Number.POSITIVE_INFINITY);
+  return { order: Math.min(...orders), title: entry.series.title };
+}
+
+/**
+ * Entries with a sortOrder come first (ascending), then everything else by title.
+ */
+function compareEntries(a: GalleryEntry, b: GalleryEntry): number {
+  const keyA = sortKey(a);
+  const keyB = sortKey(b);
+  if (keyA.order !== keyB.order) {
+    return keyA.order < keyB.order ? -1 : 1;
+  }
+  return keyA.title.localeCompare(keyB.title, 'en', { sensitivity: 'base' });
+}
+
+function groupProjects(projects: ProjectMetadata[]): GallerySection[] {
+  const series = collectSeries(projects);
+  const entries: GalleryEntry[] = [
+    ...projects.filter(p => !p.series || !series.has(p.series)).map(project => ({ kind: 'project' as const, project })),
+    ...[...series.values()].map(entry => ({ kind: 'series' as const, series: entry })),
+  ];
+
+  const sections: GallerySection[] = [];
+  for (const { heading, types } of SECTIONS) {
+    const members = entries
+      .filter(entry => types.includes(entry.kind === 'project' ? entry.project.type : entry.series.parts[0].type))
+      .sort(compareEntries);
+    if (members.length > 0) {
+      const count = members.reduce((sum, entry) => sum + (entry.kind === 'project' ? 1 : entry.series.parts.length), 0);
+      sections.push({ heading, entries: members, projects: count });
+    }
+  }
+  return sections;
+}
+
+function renderMeta(date: string | undefined, tags: string[]): string | null {
+  if (!date && tags.length === 0) {
+    return null;
+  }
+  const time = date ? [`<time datetime="${escapeHtml(date)}">${escapeHtml(date.slice(0, 10))}</time>`] : [];
+  return `<div class="meta">${[...time, ...tags.map(tag => `<span class="tag">${escapeHtml(tag)}</span>`)].join(' ')}</div>`;
+}
+
+function renderCard(project: ProjectMetadata): string {
+  const lines = [
+    `      <a class="card" href="./${encodeURIComponent(project.name)}/">`,
+    `        <span class="badge">${project.type === 'tsx' ? 'Interactive' : 'Document'}</span>`,
+    `        <h3>${escapeHtml(project.title)}</h3>`,
+  ];
+  if (project.description) {
+    lines.push(`        <p>${escapeHtml(project.description)}</p>`);
+  }
+  const meta = renderMeta(project.updated ?? project.published, project.tags ?? []);
+  if (meta) {
+    lines.push(`        ${meta}`);
+  }
+  lines.push('      </a>');
+  return lines.join('\n');
+}
+
+/**
+ * One card for a whole series: its title, then every part as a link. The date
+ * is that of the most recently updated part.
+ */
+function renderSeriesCard(series: Series): string {
+  const lines = [
+    `      <div class="card series">`,
+    `        <span class="badge">Series · ${series.parts.length} parts</span>`,
+    `        <h3>${escapeHtml(series.title)}</h3>`,
+    `        <ol class="parts">`,
+    ...series.parts.map(part => `          <li><a href="./${encodeURIComponent(part.name)}/">${escapeHtml(part.title)}</a></li>`),
+    `        </ol>`,
+  ];
+  const dates = series.parts.map(part => part.updated ?? part.published).filter((date): date is string => Boolean(date));
+  const tags = [...new Set(series.parts.flatMap(part => part.tags ?? []))];
+  const meta = renderMeta(dates.sort((a, b) => Date.parse(a) - Date.parse(b)).at(-1), tags);
+  if (meta) {
+    lines.push(`        ${meta}`);
+  }
+  lines.push('      </div>');
+  return lines.join('\n');
+}
+
+function renderEntry(entry: GalleryEntry): string {
+  return entry.kind === 'project' ? renderCard(entry.project) : renderSeriesCard(entry.series);
+}
+
+/**
+ * Client-side search over search-index.json. Every query term has to appear in
+ * a section (or the project's title and description); projects are ranked by
+ * where their terms matched, and each shows its best sections with snippets.
+ */
+const SEARCH_SCRIPT = `
+      (function () {
+        var input = document.getElementById('search');
+        var results = document.getElementById('search-results');
+        var listing = document.getElementById('listing');
+        var index = null;
+        var pending = null;
+        var timer = null;
+
+        function loadIndex() {
+          if (!pending) {
+            pending = fetch('./${SEARCH_INDEX_FILENAME}')
+              .then(function (res) { if (!res.ok) throw new Error(res.status); return res.json(); })
+              .then(function (data) { index = data; })
+              .catch(function () { index = { projects: [] }; results.textContent = 'Search is unavailable right now.'; });
+          }
+          return pending;
+        }
+
+        function escapeHtml(text) {
+          return text.replace(/[&<>"']/g, function (c) {
+            return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c];
+          });
+        }
+
+        function highlight(text, pattern) {
+          return text.split(pattern).map(function (part, i) {
+            return i % 2 ? '<mark>' + escapeHtml(part) + '</mark>' : escapeHtml(part);
+          }).join('');
+        }
+
+        function count(haystack, term) {
+          var n = 0;
+          for (var i = haystack.indexOf(term); i !== -1 && n < 10; i = haystack.indexOf(term, i + term.length)) n++;
+          return n;
+        }
+
+        // Up to ~200 characters around the first match, cut at word boundaries
+        function snippet(text, terms) {
+          var lower = text.toLowerCase();
+          var at = Math.min.apply(null, terms.map(function (term) {
+            var i = lower.indexOf(term);
+            return i === -1 ? Infinity : i;
+          }));
+          if (at === Infinity) at = 0;
+          var start = Math.max(0, at - 60);
+          var end = Math.min(text.length, at + 140);
+          if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+          if (end < text.length) end = text.lastIndexOf(' ', end) > at ? text.lastIndexOf(' ', end) : end;
+          return (start > 0 ? '… ' : '') + text.slice(start, end) + (end < text.length ? ' …' : '');
+        }
+
+        function search(query) {
+          var terms = query.toLowerCase().split(/\\s+/).filter(Boolean);
+          var pattern = new RegExp('(' + terms.map(function (term) {
+            return term.replace(/[.*+?^$()|[\\]{}\\\\]/g, '\\\\$&');
+          }).join('|') + ')', 'gi');
+          var matches = [];
+          index.projects.forEach(function (project) {
+            var about = (project.title + ' ' + project.description).toLowerCase();
+            var aboutScore = terms.every(function (term) { return about.indexOf(term) !== -1; })
+              ? terms.reduce(function (sum, term) { return sum + 10 * count(about, term); }, 0) : 0;
+            var sections = project.sections.map(function (section) {
+              var heading = section[1].toLowerCase();
+              var text = section[2].toLowerCase();
+              var hit = terms.every(function (term) { return heading.indexOf(term) !== -1 || text.indexOf(term) !== -1; });
+              var score = hit ? terms.reduce(function (sum, term) {
+                return sum + 3 * count(heading, term) + count(text, term);
+              }, 0) : 0;
+              return { section: section, score: score };
+            }).filter(function (match) { return match.score > 0; });
+            sections.sort(function (a, b) { return b.score - a.score; });
+            var score = aboutScore + sections.reduce(function (sum, match) { return sum + match.score; }, 0);
+            if (score > 0) matches.push({ project: project, sections: sections.slice(0, 3), score: score });
+          });
+          matches.sort(function (a, b) { return b.score - a.score; });
+
+          if (matches.length === 0) {
+            return '<p class="search-summary">No documents mention “' + escapeHtml(query) + '”.</p>';
+          }
+          return '<p class="search-summary">' + matches.length + ' matching document' + (matches.length === 1 ? '' : 's') + '</p>' +
+            matches.slice(0, 20).map(function (match) {
+              var base = './' + encodeURIComponent(match.project.name) + '/';
+              return '<article class="result"><h3><a href="' + base + '">' + highlight(match.project.title, pattern) + '</a></h3>' +
+                (match.sections.length === 0 ? '<p>' + highlight(match.project.description, pattern) + '</p>' : '') +
+                match.sections.map(function (m) {
+                  return '<a class="hit" href="' + escapeHtml(base + m.section[0]) + '"><span class="hit-heading">' +
+                    highlight(m.section[1], pattern) + '</span><span class="hit-text">' +
+                    highlight(snippet(m.section[2], terms), pattern) + '</span></a>';
+                }).join('') + '</article>';
+            }).join('');
+        }
+
+        function update() {
+          var query = input.value.trim();
+          if (query.length < 2) {
+            results.hidden = true;
+            listing.hidden = false;
+            return;
+          }
+          loadIndex().then(function () {
+            if (input.value.trim() !== query) return;
+            results.innerHTML = search(query);
+            results.hidden = false;
+            listing.hidden = true;
+          });
+        }
+
+        input.addEventListener('focus', loadIndex, { once: true });
+        input.addEventListener('input', function () {
+          clearTimeout(timer);
+          timer = setTimeout(update, 150);
+        });
+        input.addEventListener('keydown', function (event) {
+          if (event.key === 'Escape') { input.value = ''; update(); }
+        });
+      })();
+`;
+
+export function renderGallery(projects: ProjectMetadata[]): string {
+  const sections = groupProjects(projects.filter(isListed))
+    .map(section => `    <section>
+      <h2>${escapeHtml(section.heading)} <span class="count">${section.projects}</span></h2>
+      <div class="grid">
+${section.entries.map(renderEntry).join('\n')}
+      </div>
+    </section>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(SITE_NAME)}</title>
+    <meta name="description" content="${escapeHtml(SITE_DESCRIPTION)}" />
+    <link rel="alternate" type="application/atom+xml" title="${escapeHtml(SITE_NAME)}" href="./feed.xml" />
+    <style>
+      * { box-sizing: border-box; }
+      body {
+        margin: 0;
+        padding: 2rem 1.5rem 4rem;
+        font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif;
+        background: #f5f5f4;
+        color: #1c1917;
+      }
+      main { max-width: 1100px; margin: 0 auto; }
+      header { margin-bottom: 2.5rem; }
+      header h1 { margin: 0 0 0.5rem; font-size: 2.25rem; }
+      header p { margin: 0; color: #57534e; }
+      h2 { font-size: 1.25rem; margin: 2rem 0 1rem; }
+      .count { color: #a8a29e; font-weight: 400; }
+      .grid {
+        display: grid;
+        grid-template-columns: repeat(auto-fill, minmax(280px, 1fr));
+        gap: 1rem;
+      }
+      .card {
+        display: block;
+        padding: 1.25rem;
+        background: #fff;
+        border: 1px solid #e7e5e4;
+        border-radius: 10px;
+        color: inherit;
+        text-decoration: none;
+        transition: border-color 0.15s, box-shadow 0.15s;
+      }
+      .card:hover, .card:focus-visible {
+        border-color: #a8a29e;
+        box-shadow: 0 4px 14px rgba(0, 0, 0, 0.08);
+      }
+      .card h3 { margin: 0.5rem 0; font-size: 1.1rem; }
+      .card p { margin: 0; color: #57534e; font-size: 0.95rem; line-height: 1.45; }
+      .parts { margin: 0; padding-left: 1.25rem; line-height: 1.6; }
+      .parts a { color: inherit; }
+      .parts a:hover, .parts a:focus-visible { color: #57534e; }
+      .meta { margin-top: 0.75rem; font-size: 0.8rem; color: #78716c; }
+      .tag {
+        display: inline-block;
+        padding: 0.1rem 0.45rem;
+        border-radius: 999px;
+        background: #f5f5f4;
+      }
+      .badge {
+        font-size: 0.7rem;
+        text-transform: uppercase;
+        letter-spacing: 0.06em;
+        color: #78716c;
+      }
+      .search {
+        width: 100%;
+        max-width: 32rem;
+        margin-top: 1.25rem;
+        padding: 0.6rem 0.9rem;
+        font: inherit;
+        border: 1px solid #d6d3d1;
+        border-radius: 8px;
+        background: #fff;
+      }
+      .search:focus { outline: 2px solid #78716c; outline-offset: 1px; }
+      .search-summary { color: #57534e; }
+      .result {
+        margin-bottom: 1rem;
+        padding: 1rem 1.25rem;
+        background: #fff;
+        border: 1px solid #e7e5e4;
+        border-radius: 10px;
+      }
+      .result h3 { margin: 0 0 0.5rem; font-size: 1.1rem; }
+      .result h3 a { color: inherit; }
+      .result p { margin: 0; color: #57534e; }
+      .hit {
+        display: block;
+        padding: 0.5rem 0;
+        border-top: 1px solid #f5f5f4;
+        color: inherit;
+        text-decoration: none;
+      }
+      .hit:hover .hit-heading, .hit:focus-visible .hit-heading { text-decoration: underline; }
+      .hit-heading { display: block; font-weight: 600; font-size: 0.9rem; }
+      .hit-text { display: block; color: #57534e; font-size: 0.9rem; line-height: 1.45; }
+      mark { background: #fde68a; color: inherit; border-radius: 2px; }
+    </style>
+  </head>
+  <body>
+    <main>
+      <header>
+        <h1>${escapeHtml(SITE_NAME)}</h1>
+        <p>${escapeHtml(SITE_DESCRIPTION)}</p>
+        <input id="search" class="search" type="search" placeholder="Search all documents…" aria-label="Search all documents" autocomplete="off" />
+      </header>
+      <div id="search-results" aria-live="polite" hidden></div>
+      <div id="listing">
+${sections || '    <p>No projects published yet.</p>'}
+      </div>
+    </main>
+    <script>${SEARCH_SCRIPT}    </script>
+  </body>
+</html>
+`;
+}
+
+export function writeGallery(projectsDir: string, buildsDir: string): string {
+  const projects = loadAllProjectMetadata(projectsDir);
+  if (!fs.existsSync(buildsDir)) {
+    fs.mkdirSync(buildsDir, { recursive: true });
+  }
+  const galleryPath = path.join(buildsDir, 'index.html');
+  fs.writeFileSync(galleryPath, renderGallery(projects));
+  return galleryPath;
+}
@@ -0,0 +1,85 @@
+/**
+ * HTML helpers shared by the generated pages
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Standalone pages, as opposed to fragments loaded by scripts
+export const PAGE_PATTERN = /<\/head>|<body\b/i;
+
+export function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Value of an attribute in a single start tag, quoted or not, or null if absent.
+ */
+export function getAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? (match[1] ?? match[2] ?? match[3]) : null;
+}
+
+/**
+ * 1-based line number of a character offset.
+ */
+export function lineAt(source: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index && i < source.length; i++) {
+    if (source.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+/**
+ * Blanks out script bodies and comments while keeping offsets and newlines, so
+ * markup-looking text inside them (innerHTML templates, commented-out tags) is
+ * not mistaken for real markup.
+ */
+export function stripNonMarkup(html: string): string {
+  const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+  return html
+    .replace(/<!--[\s\S]*?-->/g, blank)
+    .replace(/(<script\b[^>]*>)([\s\S]*?)(<\/script>)/gi, (_, open, body, close) => open + blank(body) + close);
+}
+
+/**
+ * Whether an HTML file is a standalone page (it has a <head> or <body>) rather
+ * than a fragment loaded by scripts.
+ */
+export function isPage(html: string): boolean {
+  return PAGE_PATTERN.test(stripNonMarkup(html));
+}
+
+/**
+ * Inserts markup on its own line right after the <body> start tag of a page,
+ * or after </head> when the body tag is implied.
+ */
+export function insertAfterBodyOpen(html: string, markup: string): string {
+  const stripped = stripNonMarkup(html);
+  const body = stripped.match(/<body\b[^>]*>/i);
+  const index = body ? body.index! + body[0].length : stripped.search(/<\/head>/i) + '</head>'.length;
+  return `${html.slice(0, index)}\n${markup}\n${html.slice(index)}`;
+}
+
+/**
+ * Every .html/.htm file under `dir`, as sorted paths relative to it with
+ * forward slashes, e.g. "v/1/index.html".
+ */
+export function listHtmlFiles(dir: string, prefix = ''): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...listHtmlFiles(path.join(dir, entry.name), relativePath));
+    } else if (/\.html?$/i.test(entry.name)) {
+      files.push(relativePath);
+    }
+  }
+  return files.sort();
+}
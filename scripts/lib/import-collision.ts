@@ -0,0 +1,106 @@
+/**
+ * Import Collisions
+ * Deciding what happens when an import resolves to a project that already exists
+ *
+ * Strategies:
+ *   update  Replace the project's files, after archiving the current version as
+ *           a revision (see revisions.ts)
+ *   new     Import under the next free slug (<name>-2, <name>-3, ...)
+ *   skip    Leave the project alone and the file in import/
+ *
+ * The strategy comes from a sidecar next to the imported file, named after it
+ * with ".import.json" appended (import/my-viz.tsx.import.json,
+ * import/bundle.zip.import.json, import/bundle.import.json for a directory):
+ *
+ *   { "onCollision": "new" }
+ *
+ * falling back to the run-wide --on-collision= flag or IMPORT_ON_COLLISION.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const COLLISION_STRATEGIES = ['update', 'new', 'skip'] as const;
+
+export type CollisionStrategy = typeof COLLISION_STRATEGIES[number];
+
+export const SIDECAR_SUFFIX = '.import.json';
+
+export interface ImportSidecar {
+  onCollision?: CollisionStrategy;
+}
+
+export class ImportSidecarError extends Error {
+  constructor(file: string, message: string) {
+    super(`Invalid import sidecar ${path.relative(process.cwd(), file) || file}: ${message}`);
+    this.name = 'ImportSidecarError';
+  }
+}
+
+export function isCollisionStrategy(value: unknown): value is CollisionStrategy {
+  return COLLISION_STRATEGIES.includes(value as CollisionStrategy);
+}
+
+export function sidecarPath(sourcePath: string): string {
+  return `${sourcePath}${SIDECAR_SUFFIX}`;
+}
+
+/**
+ * Reads the sidecar for an entry in import/, or null if it has none.
+ */
+export function loadImportSidecar(sourcePath: string): ImportSidecar | null {
+  const file = sidecarPath(sourcePath);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new ImportSidecarError(file, `not valid JSON (${(error as Error).message})`);
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ImportSidecarError(file, 'must be a JSON object');
+  }
+
+  const { onCollision, ...unknown } = raw as Record<string, unknown>;
+  const unknownFields = Object.keys(unknown);
+  if (unknownFields.length > 0) {
+    throw new ImportSidecarError(file, `unknown field(s): ${unknownFields.join(', ')}`);
+  }
+  if (onCollision !== undefined && !isCollisionStrategy(onCollision)) {
+    throw new ImportSidecarError(file, `onCollision must be one of: ${COLLISION_STRATEGIES.join(', ')}`);
+  }
+  return { onCollision };
+}
+
+function hashFile(file: string): string {
+  return crypto.createHash('sha256').update(fs.readFileSync(file)).digest('hex');
+}
+
+/**
+ * Whether every incoming file already exists in the project with the same
+ * content. `incoming` maps paths inside the project to the files being imported.
+ */
+export function matchesProject(projectDir: string, incoming: Map<string, string>): boolean {
+  for (const [relativePath, sourceFile] of incoming) {
+    const existing = path.join(projectDir, relativePath);
+    if (!fs.existsSync(existing) || hashFile(existing) !== hashFile(sourceFile)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * The first of <slug>-2, <slug>-3, ... that is not taken in projectsDir.
+ */
+export function nextFreeSlug(projectsDir: string, slug: string): string {
+  let n = 2;
+  while (fs.existsSync(path.join(projectsDir, `${slug}-${n}`))) {
+    n++;
+  }
+  return `${slug}-${n}`;
+}
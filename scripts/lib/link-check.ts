@@ -0,0 +1,232 @@
+/**
+ * Link Checker
+ * Finds relative references in built HTML and CSS that do not resolve to a file
+ * (or, for #fragments, to an element id) inside builds/
+ *
+ * Checked references:
+ *   - src, href, poster and srcset attributes in HTML
+ *   - CSS url(...) in .css files, <style> blocks and style="" attributes
+ *   - #anchors, both same-page and on other built HTML pages
+ *   - absolute paths under the site base path (e.g. /generated-docs/<project>/),
+ *     which are mapped back into builds/
+ *
+ * External URLs (http:, https:, //, mailto:, data:, ...) are not checked.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { lineAt, stripNonMarkup } from './html.ts';
+
+export interface LinkIssue {
+  project: string;
+  file: string;        // Path relative to builds/
+  line: number;
+  reference: string;
+  reason: string;
+}
+
+interface Reference {
+  value: string;
+  index: number;       // Offset in the original source, for line numbers
+}
+
+const EXTERNAL_PATTERN = /^(?:[a-z][a-z0-9+.-]*:|\/\/)/i;
+const ATTRIBUTE_PATTERN = /\s(src|href|poster|srcset)\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'=<>`]+))/gi;
+const TAG_PATTERN = /<[a-z][^>]*>/gi;
+const CSS_URL_PATTERN = /url\(\s*(?:"([^"]*)"|'([^']*)'|([^)'"]*))\s*\)/gi;
+const STYLE_BLOCK_PATTERN = /<style\b[^>]*>([\s\S]*?)<\/style>/gi;
+const STYLE_ATTRIBUTE_PATTERN = /\sstyle\s*=\s*("([^"]*)"|'([^']*)')/gi;
+const ID_PATTERN = /\s(?:id|name)\s*=\s*["']?([^"'\s>]+)/gi;
+
+function cssReferences(css: string, offset: number): Reference[] {
+  const refs: Reference[] = [];
+  for (const match of css.matchAll(CSS_URL_PATTERN)) {
+    const value = (match[1] ?? match[2] ?? match[3] ?? '').trim();
+    refs.push({ value, index: offset + match.index! });
+  }
+  return refs;
+}
+
+function htmlReferences(html: string): Reference[] {
+  const markup = stripNonMarkup(html);
+  const refs: Reference[] = [];
+
+  for (const tag of markup.matchAll(TAG_PATTERN)) {
+    for (const attr of tag[0].matchAll(ATTRIBUTE_PATTERN)) {
+      const name = attr[1].toLowerCase();
+      const value = attr[3] ?? attr[4] ?? attr[5] ?? '';
+      const index = tag.index! + attr.index!;
+      if (name === 'srcset') {
+        for (const candidate of value.split(',')) {
+          const url = candidate.trim().split(/\s+/)[0];
+          if (url) refs.push({ value: url, index });
+        }
+      } else {
+        refs.push({ value: value.trim(), index });
+      }
+    }
+    for (const style of tag[0].matchAll(STYLE_ATTRIBUTE_PATTERN)) {
+      refs.push(...cssReferences(style[2] ?? style[3] ?? '', tag.index! + style.index!));
+    }
+  }
+
+  for (const block of markup.matchAll(STYLE_BLOCK_PATTERN)) {
+    refs.push(...cssReferences(block[1], block.index! + block[0].indexOf(block[1])));
+  }
+  return refs;
+}
+
+function collectIds(html: string): Set<string> {
+  const ids = new Set<string>();
+  for (const match of stripNonMarkup(html).matchAll(ID_PATTERN)) {
+    ids.add(match[1]);
+  }
+  return ids;
+}
+
+function listFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listFiles(full));
+    } else {
+      files.push(full);
+    }
+  }
+  return files;
+}
+
+/**
+ * Skips references that cannot be checked statically: empty values, "#" and
+ * "#top", template placeholders and anything with a URL scheme.
+ */
+function isCheckable(value: string): boolean {
+  if (!value || value === '#' || value.toLowerCase() === '#top') return false;
+  if (value.includes('${') || value.includes('{{')) return false;
+  return !EXTERNAL_PATTERN.test(value);
+}
+
+interface CheckContext {
+  buildsDir: string;
+  basePath: string;
+  idCache: Map<string, Set<string>>;
+}
+
+function idsFor(context: CheckContext, file: string): Set<string> {
+  let ids = context.idCache.get(file);
+  if (!ids) {
+    ids = collectIds(fs.readFileSync(file, 'utf-8'));
+    context.idCache.set(file, ids);
+  }
+  return ids;
+}
+
+/**
+ * Returns why `reference` (found in `fromFile`) does not resolve, or null if it does.
+ */
+function resolveReference(context: CheckContext, fromFile: string, reference: string): string | null {
+  const { buildsDir, basePath } = context;
+  const hashIndex = reference.indexOf('#');
+  const fragment = hashIndex === -1 ? '' : reference.slice(hashIndex + 1);
+  const urlPath = (hashIndex === -1 ? reference : reference.slice(0, hashIndex)).split('?')[0];
+
+  let target: string;
+  if (urlPath === '') {
+    target = fromFile;
+  } else {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(urlPath);
+    } catch {
+      return 'malformed URL encoding';
+    }
+    if (decoded.startsWith('/')) {
+      if (!`${decoded}/`.startsWith(basePath)) {
+        return `absolute path outside ${basePath}`;
+      }
+      target = path.join(buildsDir, decoded.slice(basePath.length));
+    } else {
+      target = path.resolve(path.dirname(fromFile), decoded);
+    }
+  }
+
+  const relativeTarget = path.relative(path.resolve(buildsDir), path.resolve(target));
+  if (relativeTarget === '..' || relativeTarget.startsWith(`..${path.sep}`) || path.isAbsolute(relativeTarget)) {
+    return 'points outside the build output';
+  }
+  if (fs.existsSync(target) && fs.statSync(target).isDirectory()) {
+    target = path.join(target, 'index.html');
+  }
+  if (!fs.existsSync(target)) {
+    return 'file not found';
+  }
+
+  if (fragment && /\.html?$/i.test(target)) {
+    const ids = idsFor(context, target);
+    if (!ids.has(fragment) && !ids.has(decodeURIComponentSafe(fragment))) {
+      return `anchor #${fragment} not found`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks every HTML and CSS file under builds/<projectName>/.
+ */
+export function checkProjectLinks(buildsDir: string, projectName: string, basePath: string): LinkIssue[] {
+  const projectDir = path.join(buildsDir, projectName);
+  if (!fs.existsSync(projectDir)) {
+    return [];
+  }
+
+  const context: CheckContext = { buildsDir, basePath, idCache: new Map() };
+  const issues: LinkIssue[] = [];
+  for (const file of listFiles(projectDir)) {
+    const ext = path.extname(file).toLowerCase();
+    if (ext !== '.html' && ext !== '.htm' && ext !== '.css') continue;
+
+    const source = fs.readFileSync(file, 'utf-8');
+    const refs = ext === '.css' ? cssReferences(source, 0) : htmlReferences(source);
+
+    for (const ref of refs) {
+      if (!isCheckable(ref.value)) continue;
+      const reason = resolveReference(context, file, ref.value);
+      if (reason) {
+        issues.push({
+          project: projectName,
+          file: path.relative(buildsDir, file).split(path.sep).join('/'),
+          line: lineAt(source, ref.index),
+          reference: ref.value,
+          reason,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+function decodeURIComponentSafe(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Prints issues grouped by project. Returns the number printed.
+ */
+export function reportLinkIssues(issues: LinkIssue[]): number {
+  const byProject = new Map<string, LinkIssue[]>();
+  for (const issue of issues) {
+    byProject.set(issue.project, [...(byProject.get(issue.project) ?? []), issue]);
+  }
+  for (const [project, projectIssues] of byProject) {
+    console.log(`\n🔗 ${project}: ${projectIssues.length} broken reference(s)`);
+    for (const issue of projectIssues) {
+      console.log(`   ${issue.file}:${issue.line}  ${issue.reference}  (${issue.reason})`);
+    }
+  }
+  return issues.length;
+}
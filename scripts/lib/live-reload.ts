@@ -0,0 +1,69 @@
+/**
+ * Live Reload
+ * Server-sent events that tell open pages to reload when their sources change,
+ * for projects that are served as static files by the dev server (tsx projects
+ * get Vite's HMR instead)
+ *
+ * Pages subscribe to a channel: a project name, or GALLERY_CHANNEL for the
+ * gallery. Notifying a channel reloads every page subscribed to it.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+
+export const LIVE_RELOAD_PATH = '/__live-reload';
+export const GALLERY_CHANNEL = '';
+
+export interface LiveReloadHub {
+  /** Serves the event stream for GET LIVE_RELOAD_PATH?channel=<name> */
+  handle(req: IncomingMessage, res: ServerResponse): void;
+  notify(channel: string): void;
+  close(): void;
+}
+
+export function createLiveReloadHub(): LiveReloadHub {
+  const clients = new Map<ServerResponse, string>();
+
+  // Comment lines keep idle connections from being dropped by proxies
+  const keepAlive = setInterval(() => {
+    for (const res of clients.keys()) res.write(': ping\n\n');
+  }, 30_000);
+  keepAlive.unref();
+
+  return {
+    handle(req, res) {
+      const channel = new URL(req.url ?? '', 'http://localhost').searchParams.get('channel') ?? GALLERY_CHANNEL;
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      res.write('retry: 1000\n\n');
+      clients.set(res, channel);
+      req.on('close', () => clients.delete(res));
+    },
+
+    notify(channel) {
+      for (const [res, subscribed] of clients) {
+        if (subscribed === channel) res.write('data: reload\n\n');
+      }
+    },
+
+    close() {
+      clearInterval(keepAlive);
+      for (const res of clients.keys()) res.end();
+      clients.clear();
+    },
+  };
+}
+
+/**
+ * Adds the reload client to an HTML page, just before </body> when there is one.
+ */
+export function injectLiveReload(html: string, channel: string): string {
+  const url = `${LIVE_RELOAD_PATH}?channel=${encodeURIComponent(channel)}`;
+  const script = `<script>new EventSource(${JSON.stringify(url)}).onmessage = () => location.reload();</script>`;
+  const bodyEnd = html.search(/<\/body>/i);
+  return bodyEnd === -1
+    ? `${html}\n${script}\n`
+    : `${html.slice(0, bodyEnd)}${script}\n${html.slice(bodyEnd)}`;
+}
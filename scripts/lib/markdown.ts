@@ -0,0 +1,217 @@
+/**
+ * Markdown Projects
+ * Front matter parsing, title/description extraction for import, and rendering
+ * of index.md to a standalone HTML page for the build
+ */
+
+import * as fs from 'fs';
+import { createRequire } from 'module';
+import hljs from 'highlight.js';
+import { Marked, type Tokens } from 'marked';
+import { escapeHtml } from './html.ts';
+
+const require = createRequire(import.meta.url);
+
+export interface FrontMatter {
+  data: Record<string, string>;
+  body: string;
+}
+
+interface TocEntry {
+  id: string;
+  text: string;
+  depth: number;
+}
+
+export interface MarkdownPageOptions {
+  title: string;
+  description: string;
+}
+
+/**
+ * Parses a leading `---` block of simple `key: value` lines.
+ * Quoted values are unquoted; anything more elaborate than that is kept as text.
+ */
+export function parseFrontMatter(source: string): FrontMatter {
+  const match = source.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) {
+    return { data: {}, body: source };
+  }
+
+  const data: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^([A-Za-z][\w-]*)\s*:\s*(.*)$/);
+    if (!field) continue;
+    data[field[1].toLowerCase()] = field[2].trim().replace(/^(['"])(.*)\1$/, '$2');
+  }
+  return { data, body: source.slice(match[0].length) };
+}
+
+/**
+ * Text of the first level-one heading (`# Title`), if any.
+ */
+export function extractMarkdownHeading(body: string): string | null {
+  const tokens = new Marked().lexer(body);
+  const heading = tokens.find(
+    (token): token is Tokens.Heading => token.type === 'heading' && token.depth === 1,
+  );
+  return heading ? toPlainText(heading.text) : null;
+}
+
+/**
+ * Text of the first paragraph, flattened onto one line.
+ */
+export function extractMarkdownParagraph(body: string): string | null {
+  const tokens = new Marked().lexer(body);
+  const paragraph = tokens.find((token): token is Tokens.Paragraph => token.type === 'paragraph');
+  if (!paragraph) {
+    return null;
+  }
+  const text = toPlainText(paragraph.text).replace(/\s+/g, ' ').trim();
+  return text || null;
+}
+
+function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]+/g, '')
+    .trim();
+}
+
+function createSlugger(): (text: string) => string {
+  const seen = new Map<string, number>();
+  return (text: string) => {
+    const base = text
+      .toLowerCase()
+      .replace(/<[^>]+>/g, '')
+      .replace(/[^\w\s-]/g, '')
+      .trim()
+      .replace(/\s+/g, '-') || 'section';
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  };
+}
+
+function highlightCode(code: string, lang: string | undefined): string {
+  const language = lang?.trim().split(/\s+/)[0];
+  if (language && hljs.getLanguage(language)) {
+    return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+  }
+  return escapeHtml(code);
+}
+
+function renderBody(body: string): { html: string; toc: TocEntry[] } {
+  const toc: TocEntry[] = [];
+  const slug = createSlugger();
+  const marked = new Marked({ gfm: true });
+
+  marked.use({
+    renderer: {
+      heading({ tokens, depth }) {
+        const text = this.parser.parseInline(tokens, this.parser.textRenderer);
+        const id = slug(text);
+        if (depth === 2 || depth === 3) {
+          toc.push({ id, text, depth });
+        }
+        return `<h${depth} id="${id}">${this.parser.parseInline(tokens)}</h${depth}>\n`;
+      },
+      code({ text, lang }) {
+        const language = lang?.trim().split(/\s+/)[0];
+        const className = language ? ` class="hljs language-${escapeHtml(language)}"` : ' class="hljs"';
+        return `<pre><code${className}>${highlightCode(text, lang)}</code></pre>\n`;
+      },
+    },
+  });
+
+  return { html: marked.parse(body, { async: false }), toc };
+}
+
+function renderToc(toc: TocEntry[]): string {
+  if (toc.length < 2) {
+    return '';
+  }
+  const items = toc
+    .map(entry => `        <li class="toc-depth-${entry.depth}"><a href="#${entry.id}">${escapeHtml(entry.text)}</a></li>`)
+    .join('\n');
+  return `<nav class="toc" aria-label="Table of contents">
+      <h2>Contents</h2>
+      <ol>
+${items}
+      </ol>
+    </nav>
+`;
+}
+
+function loadHighlightTheme(): string {
+  return fs.readFileSync(require.resolve('highlight.js/styles/github.css'), 'utf-8');
+}
+
+export function renderMarkdownPage(source: string, options: MarkdownPageOptions): string {
+  const { body } = parseFrontMatter(source);
+  const { html, toc } = renderBody(body);
+
+  // The table of contents goes right under the document's own title, if it has one
+  const titleEnd = html.indexOf('</h1>');
+  const article = titleEnd === -1
+    ? renderToc(toc) + html
+    : html.slice(0, titleEnd + 6) + renderToc(toc) + html.slice(titleEnd + 6);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(options.title)}</title>
+    <meta name="description" content="${escapeHtml(options.description)}" />
+    <style>
+      * { box-sizing: border-box; }
+      body {
+        margin: 0;
+        padding: 2.5rem 1.5rem 5rem;
+        font-family: Charter, 'Bitstream Charter', 'Sitka Text', Cambria, Georgia, serif;
+        font-size: 1.125rem;
+        line-height: 1.65;
+        color: #1f2328;
+        background: #fff;
+      }
+      .page { max-width: 46rem; margin: 0 auto; }
+      h1, h2, h3, h4 {
+        font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif;
+        line-height: 1.25;
+        margin: 2em 0 0.6em;
+      }
+      h1 { font-size: 2.25rem; margin-top: 0; }
+      a { color: #0969da; }
+      img { max-width: 100%; height: auto; }
+      blockquote { margin: 1.5em 0; padding: 0 1em; color: #59636e; border-left: 4px solid #d1d9e0; }
+      table { border-collapse: collapse; margin: 1.5em 0; display: block; overflow-x: auto; }
+      th, td { border: 1px solid #d1d9e0; padding: 0.4em 0.8em; }
+      code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.875em; }
+      :not(pre) > code { background: #eff2f5; padding: 0.15em 0.35em; border-radius: 4px; }
+      pre { background: #f6f8fa; border-radius: 6px; padding: 1em; overflow-x: auto; line-height: 1.45; }
+      pre code.hljs { padding: 0; background: transparent; }
+      .toc {
+        margin: 1.5rem 0 2.5rem;
+        font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif;
+        font-size: 0.95rem;
+        background: #f6f8fa;
+        border-radius: 6px;
+        padding: 1em 1.25em;
+      }
+      .toc h2 { font-size: 0.8rem; text-transform: uppercase; letter-spacing: 0.06em; margin: 0 0 0.5em; color: #59636e; }
+      .toc ol { list-style: none; margin: 0; padding: 0; }
+      .toc li { margin: 0.2em 0; }
+      .toc .toc-depth-3 { padding-left: 1.25em; }
+      .toc a { text-decoration: none; }
+${loadHighlightTheme().trim().split('\n').map(line => `      ${line}`).join('\n')}
+    </style>
+  </head>
+  <body>
+    <article class="page">
+${article}    </article>
+  </body>
+</html>
+`;
+}
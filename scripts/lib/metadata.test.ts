@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  isListed,
+  isSlug,
+  loadProjectMetadata,
+  MetadataValidationError,
+  validateProjectMetadata,
+  writeProjectMetadata,
+  type ProjectMetadata,
+} from './metadata.ts';
+
+const valid: ProjectMetadata = {
+  name: 'my-project',
+  title: 'My Project',
+  description: 'A project',
+  type: 'html',
+};
+
+function issuesFor(raw: unknown): string[] {
+  try {
+    validateProjectMetadata(raw, 'project.json');
+  } catch (error) {
+    if (error instanceof MetadataValidationError) {
+      return error.issues.map(issue => `${issue.field}: ${issue.message}`);
+    }
+    throw error;
+  }
+  return [];
+}
+
+describe('validateProjectMetadata', () => {
+  it('accepts the required fields alone', () => {
+    expect(validateProjectMetadata(valid, 'project.json')).toEqual(valid);
+  });
+
+  it('accepts every optional field', () => {
+    expect(issuesFor({
+      ...valid,
+      schemaVersion: 1,
+      tags: ['retro'],
+      published: '2025-10-14',
+      updated: '2025-10-15T08:30:00Z',
+      author: 'Someone',
+      draft: false,
+      unlisted: false,
+      series: 'newsroom',
+      seriesPart: 2,
+      seriesTitle: 'The Newsroom Files',
+      sortOrder: -1,
+      vendor: true,
+      siteBar: false,
+    })).toEqual([]);
+  });
+
+  it('rejects a value that is not an object', () => {
+    expect(issuesFor([])).toEqual(['(root): must be a JSON object']);
+  });
+
+  it('reports every problem at once', () => {
+    expect(issuesFor({ name: 'My Project', title: '', type: 'pdf', colour: 'red' })).toEqual([
+      'colour: unknown field',
+      'name: must be a lowercase slug (letters, digits and single dashes)',
+      'title: must be a non-empty string',
+      'description: must be a non-empty string',
+      'type: must be one of: tsx, html, markdown',
+    ]);
+  });
+
+  it('rejects a newer schema version', () => {
+    expect(issuesFor({ ...valid, schemaVersion: 2 })).toEqual([
+      'schemaVersion: version 2 is newer than supported version 1',
+    ]);
+  });
+
+  it('rejects dates that are not ISO 8601', () => {
+    expect(issuesFor({ ...valid, published: '14/10/2025', updated: '2025-02-30' })).toEqual([
+      'published: must be an ISO 8601 date (YYYY-MM-DD)',
+      'updated: must be an ISO 8601 date (YYYY-MM-DD)',
+    ]);
+  });
+
+  it('requires series and seriesPart together', () => {
+    expect(issuesFor({ ...valid, series: 'newsroom' })).toEqual(['seriesPart: is required when series is set']);
+    expect(issuesFor({ ...valid, seriesPart: 1, seriesTitle: 'Files' })).toEqual([
+      'seriesPart: requires series',
+      'seriesTitle: requires series',
+    ]);
+  });
+});
+
+describe('isSlug', () => {
+  it('accepts lowercase words joined by single dashes', () => {
+    expect(['a', 'my-notes', 'plan-30'].every(isSlug)).toBe(true);
+  });
+
+  it('rejects everything else', () => {
+    expect(['', 'My-Notes', 'my_notes', 'my--notes', '-notes', 'notes-', '..', 'a/b', 3].some(isSlug)).toBe(false);
+  });
+});
+
+describe('isListed', () => {
+  it('leaves out drafts and unlisted projects', () => {
+    expect(isListed(valid)).toBe(true);
+    expect(isListed({ ...valid, draft: true })).toBe(false);
+    expect(isListed({ ...valid, unlisted: true })).toBe(false);
+  });
+});
+
+describe('project.json files', () => {
+  let dir: string;
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips through writeProjectMetadata and loadProjectMetadata', () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'metadata-'));
+    writeProjectMetadata(dir, valid);
+    expect(loadProjectMetadata(dir)).toEqual({ schemaVersion: 1, ...valid });
+  });
+
+  it('returns null without a project.json and rejects invalid JSON', () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'metadata-'));
+    expect(loadProjectMetadata(dir)).toBeNull();
+    fs.writeFileSync(path.join(dir, 'project.json'), '{ "name": ');
+    expect(() => loadProjectMetadata(dir)).toThrow(MetadataValidationError);
+  });
+
+  it('refuses to write invalid metadata', () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'metadata-'));
+    expect(() => writeProjectMetadata(dir, { ...valid, name: 'Not A Slug' })).toThrow(MetadataValidationError);
+    expect(fs.existsSync(path.join(dir, 'project.json'))).toBe(false);
+  });
+});
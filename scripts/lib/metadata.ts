@@ -0,0 +1,240 @@
+/**
+ * Project Metadata
+ * Shared schema, loading and validation for projects/<name>/project.json
+ *
+ * Files without a schemaVersion are treated as version 1, which is what every
+ * project.json written before the field existed looks like.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const METADATA_SCHEMA_VERSION = 1;
+
+export const PROJECT_TYPES = ['tsx', 'html', 'markdown'] as const;
+
+export type ProjectType = typeof PROJECT_TYPES[number];
+
+export interface ProjectMetadata {
+  schemaVersion?: number;
+  name: string;
+  title: string;
+  description: string;
+  type: ProjectType;
+  tags?: string[];
+  published?: string;   // ISO 8601 date, e.g. 2025-10-14
+  updated?: string;     // ISO 8601 date
+  author?: string;
+  draft?: boolean;      // Work in progress: built, but not listed anywhere
+  unlisted?: boolean;   // Published, but only reachable by URL (not listed anywhere)
+  series?: string;      // Slug shared by every project in a series
+  seriesPart?: number;  // Position in the series, from 1
+  seriesTitle?: string; // Display name of the series (else derived from its slug)
+  sortOrder?: number;   // Lower numbers are listed first
+  vendor?: boolean;     // html only: serve external CSS/fonts/scripts from vendor-cache/
+  siteBar?: boolean;    // false: leave out the site bar linking back to the gallery
+}
+
+export interface MetadataIssue {
+  field: string;
+  message: string;
+}
+
+export class MetadataValidationError extends Error {
+  readonly file: string;
+  readonly issues: MetadataIssue[];
+
+  constructor(file: string, issues: MetadataIssue[]) {
+    const relativeFile = path.relative(process.cwd(), file) || file;
+    const details = issues.map(issue => `  - ${issue.field}: ${issue.message}`).join('\n');
+    super(`Invalid project metadata in ${relativeFile}:\n${details}`);
+    this.name = 'MetadataValidationError';
+    this.file = file;
+    this.issues = issues;
+  }
+}
+
+/** Project names and series: lowercase letters, digits and single dashes */
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:T[\d:.]+(?:Z|[+-]\d{2}:\d{2})?)?$/;
+
+const KNOWN_FIELDS = new Set<string>([
+  'schemaVersion', 'name', 'title', 'description', 'type',
+  'tags', 'published', 'updated', 'author', 'draft', 'unlisted', 'series', 'seriesPart', 'seriesTitle',
+  'sortOrder', 'vendor', 'siteBar',
+]);
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+export function isSlug(value: unknown): value is string {
+  return typeof value === 'string' && SLUG_PATTERN.test(value);
+}
+
+export function isIsoDate(value: unknown): boolean {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(Date.parse(value))) {
+    return false;
+  }
+  // Date.parse rolls impossible days over (2025-02-30 is March 2), so compare the calendar date
+  const day = value.slice(0, 10);
+  return new Date(`${day}T00:00:00Z`).toISOString().slice(0, 10) === day;
+}
+
+export function validateProjectMetadata(raw: unknown, file: string): ProjectMetadata {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new MetadataValidationError(file, [{ field: '(root)', message: 'must be a JSON object' }]);
+  }
+
+  const data = raw as Record<string, unknown>;
+  const issues: MetadataIssue[] = [];
+  const check = (ok: boolean, field: string, message: string) => {
+    if (!ok) issues.push({ field, message });
+  };
+
+  for (const field of Object.keys(data)) {
+    check(KNOWN_FIELDS.has(field), field, 'unknown field');
+  }
+
+  if (data.schemaVersion !== undefined) {
+    check(
+      Number.isInteger(data.schemaVersion) && (data.schemaVersion as number) >= 1,
+      'schemaVersion',
+      'must be a positive integer',
+    );
+    check(
+      !((data.schemaVersion as number) > METADATA_SCHEMA_VERSION),
+      'schemaVersion',
+      `version ${data.schemaVersion} is newer than supported version ${METADATA_SCHEMA_VERSION}`,
+    );
+  }
+
+  check(
+    isNonEmptyString(data.name) && SLUG_PATTERN.test(data.name),
+    'name',
+    'must be a lowercase slug (letters, digits and single dashes)',
+  );
+  check(isNonEmptyString(data.title), 'title', 'must be a non-empty string');
+  check(isNonEmptyString(data.description), 'description', 'must be a non-empty string');
+  check(
+    PROJECT_TYPES.includes(data.type as ProjectType),
+    'type',
+    `must be one of: ${PROJECT_TYPES.join(', ')}`,
+  );
+
+  if (data.tags !== undefined) {
+    check(
+      Array.isArray(data.tags) && data.tags.every(isNonEmptyString),
+      'tags',
+      'must be an array of non-empty strings',
+    );
+  }
+  for (const field of ['published', 'updated'] as const) {
+    if (data[field] !== undefined) {
+      check(isIsoDate(data[field]), field, 'must be an ISO 8601 date (YYYY-MM-DD)');
+    }
+  }
+  if (data.author !== undefined) {
+    check(isNonEmptyString(data.author), 'author', 'must be a non-empty string');
+  }
+  if (data.draft !== undefined) {
+    check(typeof data.draft === 'boolean', 'draft', 'must be true or false');
+  }
+  if (data.unlisted !== undefined) {
+    check(typeof data.unlisted === 'boolean', 'unlisted', 'must be true or false');
+  }
+  if (data.vendor !== undefined) {
+    check(typeof data.vendor === 'boolean', 'vendor', 'must be true or false');
+  }
+  if (data.siteBar !== undefined) {
+    check(typeof data.siteBar === 'boolean', 'siteBar', 'must be true or false');
+  }
+  if (data.series !== undefined) {
+    check(
+      isNonEmptyString(data.series) && SLUG_PATTERN.test(data.series),
+      'series',
+      'must be a lowercase slug',
+    );
+    check(data.seriesPart !== undefined, 'seriesPart', 'is required when series is set');
+  }
+  if (data.seriesPart !== undefined) {
+    check(
+      Number.isInteger(data.seriesPart) && (data.seriesPart as number) >= 1,
+      'seriesPart',
+      'must be a positive integer',
+    );
+    check(data.series !== undefined, 'seriesPart', 'requires series');
+  }
+  if (data.seriesTitle !== undefined) {
+    check(isNonEmptyString(data.seriesTitle), 'seriesTitle', 'must be a non-empty string');
+    check(data.series !== undefined, 'seriesTitle', 'requires series');
+  }
+  if (data.sortOrder !== undefined) {
+    check(
+      typeof data.sortOrder === 'number' && Number.isFinite(data.sortOrder),
+      'sortOrder',
+      'must be a number',
+    );
+  }
+
+  if (issues.length > 0) {
+    throw new MetadataValidationError(file, issues);
+  }
+
+  return data as unknown as ProjectMetadata;
+}
+
+/**
+ * Whether a project appears in the gallery, feed and sitemap.
+ */
+export function isListed(metadata: ProjectMetadata): boolean {
+  return !metadata.draft && !metadata.unlisted;
+}
+
+export function loadProjectMetadata(projectDir: string): ProjectMetadata | null {
+  const metadataPath = path.join(projectDir, 'project.json');
+  if (!fs.existsSync(metadataPath)) {
+    return null;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
+  } catch (error) {
+    throw new MetadataValidationError(metadataPath, [
+      { field: '(root)', message: `not valid JSON (${(error as Error).message})` },
+    ]);
+  }
+  return validateProjectMetadata(raw, metadataPath);
+}
+
+/**
+ * Loads every projects/<name>/project.json, skipping directories without one.
+ */
+export function loadAllProjectMetadata(projectsDir: string): ProjectMetadata[] {
+  if (!fs.existsSync(projectsDir)) {
+    return [];
+  }
+
+  const projects: ProjectMetadata[] = [];
+  for (const entry of fs.readdirSync(projectsDir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const metadata = loadProjectMetadata(path.join(projectsDir, entry.name));
+    if (metadata) {
+      projects.push(metadata);
+    }
+  }
+  return projects;
+}
+
+export function writeProjectMetadata(projectDir: string, metadata: ProjectMetadata): void {
+  const metadataPath = path.join(projectDir, 'project.json');
+  const { schemaVersion: _ignored, ...fields } = metadata;
+  const output: ProjectMetadata = { schemaVersion: METADATA_SCHEMA_VERSION, ...fields };
+  validateProjectMetadata(output, metadataPath);
+  fs.writeFileSync(metadataPath, JSON.stringify(output, null, 2));
+}
+
+export function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
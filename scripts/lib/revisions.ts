@@ -0,0 +1,183 @@
+/**
+ * Project Revisions
+ * Earlier versions of a project, kept in projects/<name>/revisions/<n>/ when a
+ * re-import replaces them and built alongside the latest version
+ *
+ * Each revision is a copy of the project's files as they were, plus a
+ * revision.json recording what is needed to build and label it:
+ *
+ *   { "type": "html", "title": "...", "description": "...",
+ *     "date": "2025-10-14", "archived": "2025-11-02" }
+ *
+ * `date` is the version's own updated/published date, if it had one, and
+ * `archived` the day a re-import replaced it (left out when not known). Revision
+ * <n> is built to builds/<name>/v/<n>/, where every page gets a banner linking
+ * to the latest version and a switcher between revisions.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { escapeHtml, insertAfterBodyOpen, isPage, listHtmlFiles } from './html.ts';
+import {
+  isIsoDate,
+  MetadataValidationError,
+  PROJECT_TYPES,
+  today,
+  type MetadataIssue,
+  type ProjectMetadata,
+  type ProjectType,
+} from './metadata.ts';
+
+export const REVISIONS_DIR = 'revisions';
+export const REVISION_FILENAME = 'revision.json';
+// builds/<name>/<REVISION_BUILD_DIR>/<n>/
+export const REVISION_BUILD_DIR = 'v';
+
+export interface RevisionMetadata {
+  type: ProjectType;
+  title: string;
+  description: string;
+  date?: string;        // ISO 8601 date of the version itself
+  archived?: string;    // ISO 8601 date it was replaced
+}
+
+export interface Revision {
+  number: number;
+  dir: string;
+  metadata: RevisionMetadata;
+}
+
+function validateRevisionMetadata(raw: unknown, file: string): RevisionMetadata {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new MetadataValidationError(file, [{ field: '(root)', message: 'must be a JSON object' }]);
+  }
+
+  const data = raw as Record<string, unknown>;
+  const issues: MetadataIssue[] = [];
+  const isText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+
+  if (!PROJECT_TYPES.includes(data.type as ProjectType)) {
+    issues.push({ field: 'type', message: `must be one of: ${PROJECT_TYPES.join(', ')}` });
+  }
+  for (const field of ['title', 'description']) {
+    if (!isText(data[field])) issues.push({ field, message: 'must be a non-empty string' });
+  }
+  if (data.date !== undefined && !isIsoDate(data.date)) {
+    issues.push({ field: 'date', message: 'must be an ISO 8601 date (YYYY-MM-DD)' });
+  }
+  if (data.archived !== undefined && !isIsoDate(data.archived)) {
+    issues.push({ field: 'archived', message: 'must be an ISO 8601 date (YYYY-MM-DD)' });
+  }
+
+  if (issues.length > 0) {
+    throw new MetadataValidationError(file, issues);
+  }
+  return data as unknown as RevisionMetadata;
+}
+
+/**
+ * A project's revisions, oldest first. Directories under revisions/ that are
+ * not numbered are ignored.
+ */
+export function listRevisions(projectDir: string): Revision[] {
+  const revisionsDir = path.join(projectDir, REVISIONS_DIR);
+  if (!fs.existsSync(revisionsDir)) {
+    return [];
+  }
+
+  const revisions: Revision[] = [];
+  for (const entry of fs.readdirSync(revisionsDir, { withFileTypes: true })) {
+    if (!entry.isDirectory() || !/^[1-9]\d*$/.test(entry.name)) continue;
+    const dir = path.join(revisionsDir, entry.name);
+    const file = path.join(dir, REVISION_FILENAME);
+    if (!fs.existsSync(file)) {
+      throw new MetadataValidationError(file, [{ field: '(root)', message: 'file is missing' }]);
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+      throw new MetadataValidationError(file, [
+        { field: '(root)', message: `not valid JSON (${(error as Error).message})` },
+      ]);
+    }
+    revisions.push({ number: Number(entry.name), dir, metadata: validateRevisionMetadata(raw, file) });
+  }
+  return revisions.sort((a, b) => a.number - b.number);
+}
+
+export function nextRevisionNumber(projectDir: string): number {
+  const revisions = listRevisions(projectDir);
+  return revisions.length > 0 ? revisions[revisions.length - 1].number + 1 : 1;
+}
+
+/**
+ * Copies the project's current files (everything but project.json and earlier
+ * revisions) into the next revisions/<n>/ and returns the new revision.
+ */
+export function archiveRevision(projectDir: string, metadata: ProjectMetadata): Revision {
+  const number = nextRevisionNumber(projectDir);
+  const dir = path.join(projectDir, REVISIONS_DIR, String(number));
+  fs.mkdirSync(dir, { recursive: true });
+
+  for (const entry of fs.readdirSync(projectDir)) {
+    if (entry === 'project.json' || entry === REVISIONS_DIR) continue;
+    fs.cpSync(path.join(projectDir, entry), path.join(dir, entry), { recursive: true });
+  }
+
+  const revisionMetadata: RevisionMetadata = {
+    type: metadata.type,
+    title: metadata.title,
+    description: metadata.description,
+    date: metadata.updated ?? metadata.published,
+    archived: today(),
+  };
+  fs.writeFileSync(path.join(dir, REVISION_FILENAME), JSON.stringify(revisionMetadata, null, 2));
+  return { number, dir, metadata: revisionMetadata };
+}
+
+/**
+ * The banner shown at the top of every page of an archived revision.
+ * `projectPath` is the latest version's absolute URL path, ending in a slash.
+ */
+export function renderRevisionBanner(revision: Revision, revisions: Revision[], projectTitle: string, projectPath: string): string {
+  const revisionPath = (number: number) => `${projectPath}${REVISION_BUILD_DIR}/${number}/`;
+  const label = (candidate: Revision) => {
+    const date = candidate.metadata.date ?? candidate.metadata.archived;
+    return date ? `Revision ${candidate.number} · ${date.slice(0, 10)}` : `Revision ${candidate.number}`;
+  };
+  const archived = revision.metadata.archived ? `, archived ${escapeHtml(revision.metadata.archived.slice(0, 10))}` : '';
+
+  const options = [
+    `<option value="${escapeHtml(projectPath)}">Latest version</option>`,
+    ...[...revisions].reverse().map(candidate => {
+      const selected = candidate.number === revision.number ? ' selected' : '';
+      return `<option value="${escapeHtml(revisionPath(candidate.number))}"${selected}>${escapeHtml(label(candidate))}</option>`;
+    }),
+  ];
+
+  return `<div role="region" aria-label="Archived revision" style="position:sticky;top:0;z-index:2147483647;display:flex;flex-wrap:wrap;align-items:center;gap:8px 16px;margin:0;padding:10px 16px;background:#1c1917;color:#fafaf9;font:14px/1.4 system-ui,-apple-system,sans-serif;text-align:left;border-bottom:3px solid #f59e0b">
+  <span style="flex:1 1 auto">You are viewing revision ${revision.number} of <strong>${escapeHtml(projectTitle)}</strong>${archived}.</span>
+  <a href="${escapeHtml(projectPath)}" style="color:#fbbf24;font-weight:600;text-decoration:underline">View the latest version</a>
+  <select aria-label="Switch revision" onchange="location.href = this.value" style="font:inherit;padding:2px 4px;color:#1c1917;background:#fafaf9;border:0;border-radius:4px">
+    ${options.join('\n    ')}
+  </select>
+</div>`;
+}
+
+/**
+ * Inserts the banner right after <body> in every standalone page of a built
+ * revision, and returns how many pages received it.
+ */
+export function addRevisionBanner(buildDir: string, banner: string): number {
+  let pages = 0;
+  for (const file of listHtmlFiles(buildDir)) {
+    const fullPath = path.join(buildDir, file);
+    const html = fs.readFileSync(fullPath, 'utf-8');
+    if (!isPage(html)) continue;
+    fs.writeFileSync(fullPath, insertAfterBodyOpen(html, banner));
+    pages++;
+  }
+  return pages;
+}
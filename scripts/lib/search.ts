@@ -0,0 +1,314 @@
+/**
+ * Full-Text Search
+ * Builds builds/search-index.json, the index behind the gallery's search box,
+ * from the visible text of every listed project
+ *
+ * Pages are split into sections at their headings, and each section links to
+ * its heading. HTML and Markdown pages are read from builds/<name>/, whose
+ * headings are given id anchors at build time. tsx projects are rendered to
+ * static markup on the server instead; the live page has no heading ids, so
+ * their sections link with a text fragment (#:~:text=) to the heading.
+ *
+ * Elements marked data-search-ignore, such as the series navigation added at
+ * build time, are left out of the index.
+ *
+ * Rendering a tsx project starts a Vite server, so it only happens for projects
+ * built in this run (or missing from the index); otherwise their previous
+ * entries are kept.
+ *
+ * The index is written without whitespace and each section is a tuple:
+ *
+ *   { "version": 1, "projects": [
+ *       { "name": "...", "title": "...", "description": "...",
+ *         "sections": [["#anchor", "Heading", "Section text ..."], ...] } ] }
+ *
+ * The first element is the link relative to the project's directory.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse, parseFragment, type DefaultTreeAdapterMap } from 'parse5';
+import { isPage, listHtmlFiles } from './html.ts';
+import { isListed, loadAllProjectMetadata } from './metadata.ts';
+import { REVISION_BUILD_DIR } from './revisions.ts';
+import { renderTsxToHtml } from './vite-build.ts';
+
+type Node = DefaultTreeAdapterMap['node'];
+type Element = DefaultTreeAdapterMap['element'];
+type TextNode = DefaultTreeAdapterMap['textNode'];
+
+export const SEARCH_INDEX_FILENAME = 'search-index.json';
+
+const SEARCH_INDEX_VERSION = 1;
+
+const HEADING_PATTERN = /^h[1-6]$/;
+
+// Never visible, or not prose
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'select']);
+
+// Text inside these runs on with its neighbours; anything else is a word break
+const INLINE_TAGS = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'cite', 'code', 'data', 'dfn', 'em', 'i', 'kbd', 'mark',
+  'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var',
+]);
+
+/** [link relative to the project, heading, text] */
+export type SearchSection = [string, string, string];
+
+export interface SearchProject {
+  name: string;
+  title: string;
+  description: string;
+  sections: SearchSection[];
+}
+
+export interface SearchIndex {
+  version: number;
+  projects: SearchProject[];
+}
+
+export interface SearchIndexReport {
+  projects: number;
+  sections: number;
+  bytes: number;
+  rendered: string[];
+  /** tsx projects that could not be rendered, indexed by title and description only */
+  failed: { name: string; reason: string }[];
+}
+
+function isElement(node: Node): node is Element {
+  return 'tagName' in node;
+}
+
+function attribute(element: Element, name: string): string | undefined {
+  return element.attrs.find(attr => attr.name === name)?.value;
+}
+
+function isSkipped(element: Element): boolean {
+  return SKIPPED_TAGS.has(element.tagName)
+    || attribute(element, 'hidden') !== undefined
+    || attribute(element, 'aria-hidden') === 'true'
+    || attribute(element, 'data-search-ignore') !== undefined;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * An id for a heading, made from its text: "1. The Birth of Code!" → "the-birth-of-code".
+ */
+function headingId(text: string, taken: Set<string>): string {
+  const base = text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/[\s-]+/g, '-')
+    .replace(/^(\d+-)+/, '') || 'section';
+  let id = base;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  taken.add(id);
+  return id;
+}
+
+/**
+ * Text of a node, with a space wherever a block element starts or ends.
+ */
+function visibleText(node: Node): string {
+  if (node.nodeName === '#text') {
+    return (node as TextNode).value;
+  }
+  if (!('childNodes' in node)) {
+    return '';
+  }
+  if (isElement(node)) {
+    if (isSkipped(node)) {
+      return '';
+    }
+    if (node.tagName === 'img') {
+      return ` ${attribute(node, 'alt') ?? ''} `;
+    }
+  }
+  const text = node.childNodes.map(visibleText).join('');
+  return isElement(node) && !INLINE_TAGS.has(node.tagName) ? ` ${text} ` : text;
+}
+
+/**
+ * Gives every heading on the HTML pages under `buildDir` an id, so search
+ * results can link to it. Headings that already have one keep it. Returns the
+ * number of ids added.
+ */
+export function addHeadingAnchors(buildDir: string): number {
+  let added = 0;
+  for (const file of listHtmlFiles(buildDir)) {
+    const fullPath = path.join(buildDir, file);
+    const html = fs.readFileSync(fullPath, 'utf-8');
+    if (!isPage(html)) continue;
+
+    const document = parse(html, { sourceCodeLocationInfo: true });
+    const elements: Element[] = [];
+    const collect = (node: Node) => {
+      for (const child of 'childNodes' in node ? node.childNodes : []) {
+        if (isElement(child)) {
+          elements.push(child);
+          collect(child);
+        }
+      }
+    };
+    collect(document);
+
+    const taken = new Set(elements.map(element => attribute(element, 'id')).filter((id): id is string => Boolean(id)));
+    const insertions: { offset: number; text: string }[] = [];
+    for (const element of elements) {
+      const startTag = element.sourceCodeLocation?.startTag;
+      if (!HEADING_PATTERN.test(element.tagName) || attribute(element, 'id') !== undefined || !startTag) continue;
+      const text = normalizeText(visibleText(element));
+      if (!text) continue;
+      // Before the start tag's closing ">"
+      insertions.push({ offset: startTag.endOffset - 1, text: ` id="${headingId(text, taken)}"` });
+    }
+    if (insertions.length === 0) continue;
+
+    let updated = html;
+    for (const { offset, text } of insertions.reverse()) {
+      updated = updated.slice(0, offset) + text + updated.slice(offset);
+    }
+    fs.writeFileSync(fullPath, updated);
+    added += insertions.length;
+  }
+  return added;
+}
+
+/**
+ * Splits a page's body into sections at its headings. `link` turns a heading
+ * into the fragment linking to it; text before the first heading is filed
+ * under `title` and links to the top of the page.
+ */
+function extractSections(root: Node, title: string, page: string, link: (heading: Element) => string): SearchSection[] {
+  const sections: SearchSection[] = [];
+  let current: { link: string; heading: string; parts: string[] } = { link: page, heading: title, parts: [] };
+
+  const flush = () => {
+    const text = normalizeText(current.parts.join(''));
+    if (text) sections.push([current.link, current.heading, text]);
+  };
+  const visit = (node: Node) => {
+    if (isElement(node) && HEADING_PATTERN.test(node.tagName)) {
+      const heading = normalizeText(visibleText(node));
+      if (heading) {
+        flush();
+        current = { link: `${page}${link(node)}`, heading, parts: [] };
+        return;
+      }
+    }
+    if (isElement(node) && isSkipped(node)) {
+      return;
+    }
+    if (!('childNodes' in node) || node.nodeName === 'img') {
+      current.parts.push(visibleText(node));
+      return;
+    }
+    const block = isElement(node) && !INLINE_TAGS.has(node.tagName);
+    if (block) current.parts.push(' ');
+    node.childNodes.forEach(visit);
+    if (block) current.parts.push(' ');
+  };
+  visit(root);
+  flush();
+  return sections;
+}
+
+/**
+ * Sections of every page in builds/<name>/, skipping archived revisions.
+ */
+function extractBuiltSections(buildDir: string, title: string): SearchSection[] {
+  if (!fs.existsSync(buildDir)) {
+    return [];
+  }
+  const pages = listHtmlFiles(buildDir).filter(file => !file.startsWith(`${REVISION_BUILD_DIR}/`));
+  return pages.flatMap(file => {
+    const html = fs.readFileSync(path.join(buildDir, file), 'utf-8');
+    if (!isPage(html)) return [];
+    const page = file.replace(/(^|\/)index\.html?$/i, '$1');
+    return extractSections(parse(html), title, encodeURI(page), heading => {
+      const id = attribute(heading, 'id');
+      return id ? `#${encodeURIComponent(id)}` : '';
+    });
+  });
+}
+
+async function extractRenderedSections(projectDir: string, title: string): Promise<SearchSection[]> {
+  const markup = await renderTsxToHtml(projectDir);
+  // "-" separates the parts of a text directive, so it has to be escaped too
+  return extractSections(parseFragment(markup), title, '', heading =>
+    `#:~:text=${encodeURIComponent(normalizeText(visibleText(heading))).replace(/-/g, '%2D')}`);
+}
+
+/**
+ * The index written by the previous build, or null if missing or outdated.
+ */
+export function loadSearchIndex(buildsDir: string): SearchIndex | null {
+  const file = path.join(buildsDir, SEARCH_INDEX_FILENAME);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  try {
+    const index = JSON.parse(fs.readFileSync(file, 'utf-8')) as SearchIndex;
+    return index.version === SEARCH_INDEX_VERSION && Array.isArray(index.projects) ? index : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rebuilds builds/search-index.json from every listed project. tsx projects in
+ * `renderProjects` (those just built, by name, with the source directory the
+ * build used) are rendered again; others reuse their previous entry when there
+ * is one, or are rendered from projects/<name>/.
+ */
+export async function writeSearchIndex(
+  projectsDir: string,
+  buildsDir: string,
+  renderProjects: Map<string, string>,
+): Promise<SearchIndexReport> {
+  const previous = new Map((loadSearchIndex(buildsDir)?.projects ?? []).map(project => [project.name, project]));
+  const report: SearchIndexReport = { projects: 0, sections: 0, bytes: 0, rendered: [], failed: [] };
+  const projects: SearchProject[] = [];
+
+  const listed = loadAllProjectMetadata(projectsDir).filter(isListed);
+  for (const metadata of listed.sort((a, b) => a.name.localeCompare(b.name))) {
+    const entry: SearchProject = {
+      name: metadata.name,
+      title: metadata.title,
+      description: metadata.description,
+      sections: [],
+    };
+
+    if (metadata.type !== 'tsx') {
+      entry.sections = extractBuiltSections(path.join(buildsDir, metadata.name), metadata.title);
+    } else if (!renderProjects.has(metadata.name) && previous.has(metadata.name)) {
+      entry.sections = previous.get(metadata.name)!.sections;
+    } else {
+      try {
+        const projectDir = renderProjects.get(metadata.name) ?? path.join(projectsDir, metadata.name);
+        entry.sections = await extractRenderedSections(projectDir, metadata.title);
+        report.rendered.push(metadata.name);
+      } catch (error) {
+        report.failed.push({ name: metadata.name, reason: (error as Error).message.split('\n')[0] });
+      }
+    }
+
+    projects.push(entry);
+    report.sections += entry.sections.length;
+  }
+
+  const index: SearchIndex = { version: SEARCH_INDEX_VERSION, projects };
+  const json = JSON.stringify(index);
+  fs.mkdirSync(buildsDir, { recursive: true });
+  fs.writeFileSync(path.join(buildsDir, SEARCH_INDEX_FILENAME), json);
+  report.projects = projects.length;
+  report.bytes = Buffer.byteLength(json);
+  return report;
+}
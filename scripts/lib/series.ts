@@ -0,0 +1,112 @@
+/**
+ * Series
+ * Projects that belong together, declared in each part's project.json:
+ *
+ *   { "series": "newsroom", "seriesPart": 2, "seriesTitle": "The Newsroom Files" }
+ *
+ * Every built page of a part gets a navigation bar (series title, previous and
+ * next part, list of all parts), and the gallery shows the series as a single
+ * grouped entry. Only listed projects count as parts, so a draft does not
+ * appear in the navigation until it is published.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { escapeHtml, insertAfterBodyOpen, isPage, listHtmlFiles } from './html.ts';
+import { isListed, type ProjectMetadata } from './metadata.ts';
+import { REVISION_BUILD_DIR } from './revisions.ts';
+
+export interface Series {
+  slug: string;
+  title: string;
+  parts: ProjectMetadata[];   // Ordered by seriesPart
+}
+
+export class SeriesError extends Error {
+  constructor(slug: string, message: string) {
+    super(`Invalid series "${slug}": ${message}`);
+    this.name = 'SeriesError';
+  }
+}
+
+function titleFromSlug(slug: string): string {
+  return slug
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Groups the listed projects into series by slug. The title is the first
+ * seriesTitle found in part order, or else made from the slug.
+ */
+export function collectSeries(projects: ProjectMetadata[]): Map<string, Series> {
+  const series = new Map<string, Series>();
+  for (const project of projects.filter(isListed)) {
+    if (!project.series) continue;
+    const entry = series.get(project.series) ?? { slug: project.series, title: '', parts: [] };
+    entry.parts.push(project);
+    series.set(project.series, entry);
+  }
+
+  for (const entry of series.values()) {
+    entry.parts.sort((a, b) => a.seriesPart! - b.seriesPart!);
+    for (let i = 1; i < entry.parts.length; i++) {
+      if (entry.parts[i].seriesPart === entry.parts[i - 1].seriesPart) {
+        throw new SeriesError(entry.slug,
+          `${entry.parts[i - 1].name} and ${entry.parts[i].name} are both part ${entry.parts[i].seriesPart}`);
+      }
+    }
+    entry.title = entry.parts.find(part => part.seriesTitle)?.seriesTitle ?? titleFromSlug(entry.slug);
+  }
+  return series;
+}
+
+/**
+ * The navigation bar for one part, linking to the others under `basePath`.
+ * Parts are numbered by their place in the series, so gaps in seriesPart do not show.
+ */
+export function renderSeriesNav(series: Series, projectName: string, basePath: string): string {
+  const index = series.parts.findIndex(part => part.name === projectName);
+  const href = (part: ProjectMetadata) => escapeHtml(`${basePath}${part.name}/`);
+  const linkStyle = 'color:#44403c;text-decoration:underline';
+  const previous = series.parts[index - 1];
+  const next = series.parts[index + 1];
+
+  const links = [
+    previous ? `<a href="${href(previous)}" rel="prev" style="${linkStyle}">← ${escapeHtml(previous.title)}</a>` : '',
+    next ? `<a href="${href(next)}" rel="next" style="${linkStyle}">${escapeHtml(next.title)} →</a>` : '',
+  ].filter(Boolean);
+
+  const items = series.parts.map(part => part.name === projectName
+    ? `<li><strong aria-current="page">${escapeHtml(part.title)}</strong></li>`
+    : `<li><a href="${href(part)}" style="${linkStyle}">${escapeHtml(part.title)}</a></li>`);
+
+  return `<nav aria-label="Series: ${escapeHtml(series.title)}" data-search-ignore style="display:flex;flex-wrap:wrap;align-items:baseline;gap:4px 16px;margin:0;padding:8px 16px;background:#f5f5f4;color:#44403c;font:14px/1.4 system-ui,-apple-system,sans-serif;text-align:left;border-bottom:1px solid #e7e5e4">
+  <span style="flex:1 1 auto">Part ${index + 1} of ${series.parts.length} in <strong>${escapeHtml(series.title)}</strong></span>
+  ${links.join('\n  ')}
+  <details style="flex-basis:100%">
+    <summary style="cursor:pointer">All parts</summary>
+    <ol style="margin:4px 0 4px;padding-left:24px">
+      ${items.join('\n      ')}
+    </ol>
+  </details>
+</nav>`;
+}
+
+/**
+ * Inserts the navigation right after <body> in every standalone page of a
+ * build, except archived revisions, and returns how many pages received it.
+ */
+export function addSeriesNav(buildDir: string, nav: string): number {
+  let pages = 0;
+  for (const file of listHtmlFiles(buildDir)) {
+    if (file.startsWith(`${REVISION_BUILD_DIR}/`)) continue;
+    const fullPath = path.join(buildDir, file);
+    const html = fs.readFileSync(fullPath, 'utf-8');
+    if (!isPage(html)) continue;
+    fs.writeFileSync(fullPath, insertAfterBodyOpen(html, nav));
+    pages++;
+  }
+  return pages;
+}
@@ -0,0 +1,82 @@
+/**
+ * Site Bar
+ * A slim bar at the top of every project page linking back to the gallery, with
+ * the project's title and last-updated date. Projects opt out with
+ * "siteBar": false in project.json.
+ *
+ * The bar lives in a declarative shadow root (<template shadowrootmode>), so it
+ * needs no script, its styles cannot leak into the page and the page's styles
+ * cannot reach it. The host is a custom element, which page selectors such as
+ * `div` or `header` do not match, with inline styles that reset anything
+ * inherited or targeted at it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { escapeHtml, insertAfterBodyOpen, isPage, listHtmlFiles } from './html.ts';
+import type { ProjectMetadata } from './metadata.ts';
+import { REVISION_BUILD_DIR } from './revisions.ts';
+import { SITE_NAME } from './site.ts';
+
+const HOST_TAG = 'site-bar';
+
+const STYLES = `
+      :host { display: block; }
+      nav {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: baseline;
+        gap: 2px 12px;
+        padding: 6px 16px;
+        background: #1c1917;
+        color: #d6d3d1;
+        font: 13px/1.4 system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif;
+        text-align: left;
+      }
+      a { color: #fafaf9; font-weight: 600; text-decoration: none; }
+      a:hover, a:focus-visible { text-decoration: underline; }
+      .title { flex: 1 1 auto; min-width: 0; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+      time { color: #a8a29e; }`;
+
+/**
+ * The bar for a project. `galleryPath` is the gallery's absolute URL path.
+ */
+export function renderSiteBar(metadata: ProjectMetadata, galleryPath: string): string {
+  const date = metadata.updated ?? metadata.published;
+  const parts = [
+    `<a href="${escapeHtml(galleryPath)}">← ${SITE_NAME}</a>`,
+    `<span class="title">${escapeHtml(metadata.title)}</span>`,
+  ];
+  if (date) {
+    const label = metadata.updated ? 'Updated' : 'Published';
+    parts.push(`<span>${label} <time datetime="${escapeHtml(date)}">${escapeHtml(date.slice(0, 10))}</time></span>`);
+  }
+
+  return `<${HOST_TAG} data-search-ignore style="all:initial;display:block">
+  <template shadowrootmode="open">
+    <style>${STYLES}
+    </style>
+    <nav aria-label="${SITE_NAME}">
+      ${parts.join('\n      ')}
+    </nav>
+  </template>
+</${HOST_TAG}>`;
+}
+
+/**
+ * Inserts the bar right after <body> in every standalone page of a build,
+ * except archived revisions (which have their own banner), and returns how
+ * many pages received it.
+ */
+export function addSiteBar(buildDir: string, bar: string): number {
+  let pages = 0;
+  for (const file of listHtmlFiles(buildDir)) {
+    if (file.startsWith(`${REVISION_BUILD_DIR}/`)) continue;
+    const fullPath = path.join(buildDir, file);
+    const html = fs.readFileSync(fullPath, 'utf-8');
+    if (!isPage(html)) continue;
+    fs.writeFileSync(fullPath, insertAfterBodyOpen(html, bar));
+    pages++;
+  }
+  return pages;
+}
@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadSiteConfig, SiteConfigError, validateSiteConfig } from './site.ts';
+
+const config = {
+  siteUrl: 'https://example.com/docs/',
+  deploy: {
+    target: 'sftp',
+    sftp: { host: 'web', user: 'deploy', remoteDir: '/public_html/docs' },
+    localDir: 'deploy-staging',
+  },
+};
+
+function issuesFor(raw: unknown, sources: Record<string, string> = {}): string[] {
+  try {
+    validateSiteConfig(raw, 'site.config.json', sources);
+  } catch (error) {
+    if (error instanceof SiteConfigError) {
+      return error.issues.map(issue => `${issue.field}: ${issue.message}`);
+    }
+    throw error;
+  }
+  return [];
+}
+
+describe('validateSiteConfig', () => {
+  it('derives the base path from the site URL', () => {
+    expect(validateSiteConfig(config, 'site.config.json')).toMatchObject({
+      siteUrl: 'https://example.com/docs',
+      basePath: '/docs/',
+    });
+  });
+
+  it('serves a site at the root of its host from /', () => {
+    expect(validateSiteConfig({ ...config, siteUrl: 'https://example.com' }, 'site.config.json')).toMatchObject({
+      siteUrl: 'https://example.com',
+      basePath: '/',
+    });
+  });
+
+  it('rejects unknown fields, bad URLs and missing deploy settings', () => {
+    expect(issuesFor({
+      siteUrl: 'ftp://example.com/docs?x=1',
+      deploy: { target: '', sftp: { host: 'my host', user: 'deploy', port: 22 } },
+    })).toEqual([
+      'deploy.sftp.port: unknown field',
+      'siteUrl: must be an absolute http(s) URL, e.g. https://example.com/docs',
+      'siteUrl: must not have a query string or fragment',
+      'deploy.target: must be a non-empty string',
+      'deploy.sftp.remoteDir: must be a non-empty string',
+      'deploy.localDir: must be a non-empty string',
+      'deploy.sftp.host: must be a non-empty string without spaces',
+    ]);
+  });
+
+  it('names the variable a bad value came from', () => {
+    expect(issuesFor({ ...config, siteUrl: 'not a url' }, { siteUrl: 'SITE_URL' })).toEqual([
+      'siteUrl (from SITE_URL): must be an absolute http(s) URL, e.g. https://example.com/docs',
+    ]);
+  });
+});
+
+describe('loadSiteConfig', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'site-'));
+    file = path.join(dir, 'site.config.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('applies environment overrides on top of the file', () => {
+    fs.writeFileSync(file, JSON.stringify(config));
+    const site = loadSiteConfig(file, { SITE_URL: 'http://localhost:8080/preview', DEPLOY_TARGET: 'local' });
+    expect(site.siteUrl).toBe('http://localhost:8080/preview');
+    expect(site.basePath).toBe('/preview/');
+    expect(site.deploy.target).toBe('local');
+    expect(site.deploy.sftp.host).toBe('web');
+  });
+
+  it('ignores empty environment variables', () => {
+    fs.writeFileSync(file, JSON.stringify(config));
+    expect(loadSiteConfig(file, { SITE_URL: '' }).siteUrl).toBe('https://example.com/docs');
+  });
+
+  it('reports a missing or unparsable file', () => {
+    expect(() => loadSiteConfig(file, {})).toThrow(/\(file\): not found/);
+    fs.writeFileSync(file, '{ "siteUrl": ');
+    expect(() => loadSiteConfig(file, {})).toThrow(/\(file\): not valid JSON/);
+  });
+});
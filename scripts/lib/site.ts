@@ -0,0 +1,186 @@
+/**
+ * Site
+ * Where the site is published and deployed, read from site.config.json at the
+ * repo root:
+ *
+ *   {
+ *     "siteUrl": "https://dosmenu.com/generated-docs",
+ *     "deploy": {
+ *       "target": "sftp",
+ *       "sftp": { "host": "zx", "user": "claude", "remoteDir": "/public_html/generated-docs" },
+ *       "localDir": "deploy-staging"
+ *     }
+ *   }
+ *
+ * The base path every page is served under is the path of siteUrl. Each value
+ * can be overridden with an environment variable (see ENV_OVERRIDES), and the
+ * result is validated before any script uses it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const SITE_CONFIG_FILENAME = 'site.config.json';
+
+/** Name and tagline of the site: gallery, feed, site bar, social cards */
+export const SITE_NAME = 'Generated Documents';
+export const SITE_DESCRIPTION = 'Interactive documentation and visualizations generated from code.';
+
+/** Generated by build-all at the top of builds/: gallery, Atom feed, sitemap, search index */
+export const SITE_FILES = ['index.html', 'feed.xml', 'sitemap.xml', 'search-index.json'];
+
+export interface DeployConfig {
+  target: string;       // Default deploy target, e.g. "sftp" or "local"
+  sftp: {
+    host: string;       // SSH host or ~/.ssh/config alias
+    user: string;
+    remoteDir: string;  // Directory on the server that holds the site
+  };
+  localDir: string;     // Staging directory for the local target
+}
+
+export interface SiteConfig {
+  siteUrl: string;      // Public URL of builds/, without a trailing slash
+  basePath: string;     // URL path of the site, with slashes at both ends, e.g. /generated-docs/
+  deploy: DeployConfig;
+}
+
+export interface SiteConfigIssue {
+  field: string;
+  message: string;
+}
+
+export class SiteConfigError extends Error {
+  readonly issues: SiteConfigIssue[];
+
+  constructor(file: string, issues: SiteConfigIssue[]) {
+    const relativeFile = path.relative(process.cwd(), file) || file;
+    const details = issues.map(issue => `  - ${issue.field}: ${issue.message}`).join('\n');
+    super(`Invalid site config in ${relativeFile}:\n${details}`);
+    this.name = 'SiteConfigError';
+    this.issues = issues;
+  }
+}
+
+/** Environment variables that take precedence over the file, by field */
+export const ENV_OVERRIDES: Record<string, string> = {
+  'siteUrl': 'SITE_URL',
+  'deploy.target': 'DEPLOY_TARGET',
+  'deploy.sftp.host': 'DEPLOY_SSH_HOST',
+  'deploy.sftp.user': 'DEPLOY_SSH_USER',
+  'deploy.sftp.remoteDir': 'DEPLOY_REMOTE_DIR',
+  'deploy.localDir': 'DEPLOY_LOCAL_DIR',
+};
+
+const KNOWN_FIELDS: Record<string, string[]> = {
+  '': ['siteUrl', 'deploy'],
+  'deploy': ['target', 'sftp', 'localDir'],
+  'deploy.sftp': ['host', 'user', 'remoteDir'],
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function getField(data: Record<string, unknown>, field: string): unknown {
+  return field.split('.').reduce<unknown>((value, key) => isObject(value) ? value[key] : undefined, data);
+}
+
+function setField(data: Record<string, unknown>, field: string, value: string): void {
+  const keys = field.split('.');
+  let parent = data;
+  for (const key of keys.slice(0, -1)) {
+    if (!isObject(parent[key])) parent[key] = {};
+    parent = parent[key] as Record<string, unknown>;
+  }
+  parent[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Validates a parsed config, with overrides already applied. `sources` names
+ * the variable a field came from, for the error message.
+ */
+export function validateSiteConfig(raw: unknown, file: string, sources: Record<string, string> = {}): SiteConfig {
+  if (!isObject(raw)) {
+    throw new SiteConfigError(file, [{ field: '(root)', message: 'must be a JSON object' }]);
+  }
+
+  const issues: SiteConfigIssue[] = [];
+  const check = (ok: boolean, field: string, message: string) => {
+    if (!ok) issues.push({ field: sources[field] ? `${field} (from ${sources[field]})` : field, message });
+  };
+
+  for (const [parent, fields] of Object.entries(KNOWN_FIELDS)) {
+    const value = parent ? getField(raw, parent) : raw;
+    if (!isObject(value)) continue;
+    for (const key of Object.keys(value)) {
+      check(fields.includes(key), parent ? `${parent}.${key}` : key, 'unknown field');
+    }
+  }
+
+  const siteUrl = getField(raw, 'siteUrl');
+  let url: URL | null = null;
+  try {
+    url = isNonEmptyString(siteUrl) ? new URL(siteUrl) : null;
+  } catch {
+    url = null;
+  }
+  check(url !== null && (url.protocol === 'https:' || url.protocol === 'http:'), 'siteUrl',
+    'must be an absolute http(s) URL, e.g. https://example.com/docs');
+  check(!url || (!url.search && !url.hash), 'siteUrl', 'must not have a query string or fragment');
+
+  check(isObject(raw.deploy), 'deploy', 'must be an object');
+  check(isObject(getField(raw, 'deploy.sftp')), 'deploy.sftp', 'must be an object');
+  for (const field of ['deploy.target', 'deploy.sftp.remoteDir', 'deploy.localDir']) {
+    check(isNonEmptyString(getField(raw, field)), field, 'must be a non-empty string');
+  }
+  for (const field of ['deploy.sftp.host', 'deploy.sftp.user']) {
+    const value = getField(raw, field);
+    check(isNonEmptyString(value) && !/\s/.test(value), field, 'must be a non-empty string without spaces');
+  }
+
+  if (issues.length > 0) {
+    throw new SiteConfigError(file, issues);
+  }
+
+  const pathname = url!.pathname.replace(/\/+$/, '');
+  return {
+    siteUrl: `${url!.origin}${pathname}`,
+    basePath: `${pathname}/`,
+    deploy: raw.deploy as DeployConfig,
+  };
+}
+
+/**
+ * Reads site.config.json and applies the environment overrides.
+ */
+export function loadSiteConfig(
+  file = path.join(process.cwd(), SITE_CONFIG_FILENAME),
+  env: Record<string, string | undefined> = process.env,
+): SiteConfig {
+  if (!fs.existsSync(file)) {
+    throw new SiteConfigError(file, [{ field: '(file)', message: 'not found' }]);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new SiteConfigError(file, [{ field: '(file)', message: `not valid JSON (${(error as Error).message})` }]);
+  }
+
+  const sources: Record<string, string> = {};
+  if (isObject(raw)) {
+    for (const [field, variable] of Object.entries(ENV_OVERRIDES)) {
+      const value = env[variable];
+      if (!value) continue;
+      setField(raw, field, value);
+      sources[field] = variable;
+    }
+  }
+  return validateSiteConfig(raw, file, sources);
+}
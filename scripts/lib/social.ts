@@ -0,0 +1,202 @@
+/**
+ * Social Metadata
+ * Adds OpenGraph/Twitter tags, a canonical URL and a generated preview card to
+ * the HTML pages of a built project, so links unfurl properly in chat and
+ * social apps
+ *
+ * The card is rendered from the project's title and description as SVG and
+ * rasterized to og-image.png (crawlers do not accept SVG); only the PNG is
+ * written to the build.
+ * Tags already present in a page are never replaced; a page that declares its
+ * own og:image keeps it. Archived revisions get no tags, since the title,
+ * description and card describe the current version.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Resvg } from '@resvg/resvg-js';
+import { escapeHtml, getAttribute, isPage, listHtmlFiles, stripNonMarkup } from './html.ts';
+import type { ProjectMetadata } from './metadata.ts';
+import { REVISION_BUILD_DIR } from './revisions.ts';
+import { SITE_NAME } from './site.ts';
+
+export const PREVIEW_CARD_NAME = 'og-image';
+
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630;
+const CARD_PADDING = 80;
+const CARD_FONTS = "'DejaVu Sans', 'Helvetica Neue', Arial, sans-serif";
+
+const HEAD_TAG_PATTERN = /<(meta|link)\b[^>]*>/gi;
+
+export interface SocialReport {
+  pages: number;       // HTML pages that received at least one tag
+  tags: number;        // Tags added across all pages
+  card: boolean;       // Whether the preview card was generated
+}
+
+interface HeadTag {
+  /** Identifies the tag for the "already present" check, e.g. "property:og:title" */
+  key: string;
+  html: string;
+}
+
+/**
+ * Greedy word wrap by an estimated character budget, ending the last line with
+ * an ellipsis if the text does not fit in `maxLines`.
+ */
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars || !current) {
+      current = candidate;
+      continue;
+    }
+    lines.push(current);
+    current = word;
+    if (lines.length === maxLines) break;
+  }
+  if (lines.length < maxLines && current) {
+    lines.push(current);
+  } else if (current) {
+    lines[maxLines - 1] = `${lines[maxLines - 1].replace(/[\s.,;:!?-]+$/, '')}…`;
+  }
+  return lines.map(line => (line.length > maxChars ? `${line.slice(0, maxChars - 1)}…` : line));
+}
+
+function textBlock(lines: string[], y: number, size: number, lineHeight: number, attributes: string): string {
+  return lines
+    .map((line, i) => `  <text x="${CARD_PADDING}" y="${y + i * lineHeight}" font-size="${size}" ${attributes}>${escapeHtml(line)}</text>`)
+    .join('\n');
+}
+
+export function renderPreviewCard(metadata: ProjectMetadata, projectUrl: string): string {
+  const titleLines = wrapText(metadata.title, 28, 3);
+  const titleTop = 240;
+  const descriptionTop = titleTop + titleLines.length * 76 + 30;
+  // Whatever fits above the URL footer, up to three lines
+  const descriptionLines = wrapText(metadata.description, 58, Math.min(3, Math.floor((520 - descriptionTop) / 44) + 1));
+  const kind = metadata.type === 'tsx' ? 'Interactive' : 'Document';
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}">
+  <defs>
+    <linearGradient id="background" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="#1c1917"/>
+      <stop offset="1" stop-color="#44403c"/>
+    </linearGradient>
+  </defs>
+  <rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="url(#background)"/>
+  <rect x="${CARD_PADDING}" y="96" width="72" height="6" rx="3" fill="#f59e0b"/>
+  <text x="${CARD_PADDING}" y="150" font-size="28" font-family="${CARD_FONTS}" fill="#d6d3d1" letter-spacing="2">${escapeHtml(`${SITE_NAME} · ${kind}`.toUpperCase())}</text>
+${textBlock(titleLines, titleTop, 64, 76, `font-family="${CARD_FONTS}" font-weight="bold" fill="#fafaf9"`)}
+${textBlock(descriptionLines, descriptionTop, 32, 44, `font-family="${CARD_FONTS}" fill="#d6d3d1"`)}
+  <text x="${CARD_PADDING}" y="${CARD_HEIGHT - 56}" font-size="24" font-family="${CARD_FONTS}" fill="#a8a29e">${escapeHtml(projectUrl.replace(/^https?:\/\//, ''))}</text>
+</svg>
+`;
+}
+
+/**
+ * Keys of the tags a page already has, in the same form as HeadTag.key.
+ */
+function existingTagKeys(html: string): Set<string> {
+  const keys = new Set<string>();
+  for (const match of stripNonMarkup(html).matchAll(HEAD_TAG_PATTERN)) {
+    const tag = match[0];
+    if (match[1].toLowerCase() === 'link') {
+      const rel = getAttribute(tag, 'rel');
+      if (rel) keys.add(`rel:${rel.toLowerCase()}`);
+      continue;
+    }
+    for (const attribute of ['property', 'name']) {
+      const value = getAttribute(tag, attribute);
+      if (value) keys.add(`${attribute}:${value.toLowerCase()}`);
+    }
+  }
+  return keys;
+}
+
+/**
+ * `imageUrl` is the generated card, or null when the page has its own og:image
+ * (or no card was generated).
+ */
+function socialTags(metadata: ProjectMetadata, pageUrl: string, imageUrl: string | null, hasImage: boolean): HeadTag[] {
+  const meta = (attribute: string, name: string, content: string): HeadTag => ({
+    key: `${attribute}:${name}`,
+    html: `<meta ${attribute}="${name}" content="${escapeHtml(content)}" />`,
+  });
+
+  const tags = [
+    { key: 'rel:canonical', html: `<link rel="canonical" href="${escapeHtml(pageUrl)}" />` },
+    meta('name', 'description', metadata.description),
+    meta('property', 'og:type', 'website'),
+    meta('property', 'og:site_name', SITE_NAME),
+    meta('property', 'og:title', metadata.title),
+    meta('property', 'og:description', metadata.description),
+    meta('property', 'og:url', pageUrl),
+  ];
+  if (imageUrl) {
+    tags.push(
+      meta('property', 'og:image', imageUrl),
+      meta('property', 'og:image:width', String(CARD_WIDTH)),
+      meta('property', 'og:image:height', String(CARD_HEIGHT)),
+      meta('property', 'og:image:alt', metadata.title),
+    );
+  }
+  tags.push(meta('name', 'twitter:card', hasImage ? 'summary_large_image' : 'summary'));
+  return tags;
+}
+
+/**
+ * Inserts tags just before </head>, or before <body> in documents without an
+ * explicit head, matching the indentation of the surrounding markup.
+ */
+function insertIntoHead(html: string, tags: string[]): string {
+  const markup = stripNonMarkup(html);
+  let index = markup.search(/<\/head>/i);
+  if (index === -1) index = markup.search(/<body\b/i);
+
+  const lineStart = index === 0 ? 0 : html.lastIndexOf('\n', index - 1) + 1;
+  const before = html.slice(lineStart, index);
+  const ownLine = /^[ \t]*$/.test(before);
+  const block = tags.map(tag => `${ownLine ? before : ''}  ${tag}\n`).join('');
+  return ownLine
+    ? html.slice(0, lineStart) + block + html.slice(lineStart)
+    : `${html.slice(0, index)}\n${block}${html.slice(index)}`;
+}
+
+/**
+ * Adds social tags to every HTML page in `buildDir` outside archived revisions,
+ * generating the preview card when at least one page needs it. `projectUrl` is
+ * the project's public URL, ending in a slash.
+ */
+export function addSocialMetadata(buildDir: string, metadata: ProjectMetadata, projectUrl: string): SocialReport {
+  const pages = listHtmlFiles(buildDir)
+    .filter(file => !file.startsWith(`${REVISION_BUILD_DIR}/`))
+    .map(file => ({ file, html: fs.readFileSync(path.join(buildDir, file), 'utf-8') }))
+    .filter(page => isPage(page.html))
+    .map(page => ({ ...page, existing: existingTagKeys(page.html) }));
+  const report: SocialReport = { pages: 0, tags: 0, card: false };
+
+  if (pages.some(page => !page.existing.has('property:og:image'))) {
+    const svg = renderPreviewCard(metadata, projectUrl);
+    const png = new Resvg(svg, { fitTo: { mode: 'width', value: CARD_WIDTH } }).render().asPng();
+    fs.writeFileSync(path.join(buildDir, `${PREVIEW_CARD_NAME}.png`), png);
+    report.card = true;
+  }
+
+  for (const page of pages) {
+    const pageUrl = projectUrl + page.file.replace(/(^|\/)index\.html?$/i, '$1');
+    const hasOwnImage = page.existing.has('property:og:image');
+    const imageUrl = report.card && !hasOwnImage ? `${projectUrl}${PREVIEW_CARD_NAME}.png` : null;
+    const missing = socialTags(metadata, pageUrl, imageUrl, hasOwnImage || imageUrl !== null)
+      .filter(tag => !page.existing.has(tag.key));
+    if (missing.length === 0) continue;
+
+    fs.writeFileSync(path.join(buildDir, page.file), insertIntoHead(page.html, missing.map(tag => tag.html)));
+    report.pages++;
+    report.tags += missing.length;
+  }
+  return report;
+}
@@ -0,0 +1,106 @@
+/**
+ * Per-project Tailwind
+ * PostCSS config for tsx projects: the root tailwind.config.js with its content
+ * globs pointed at the project's own sources, so every class a project uses is
+ * generated without a copy of it at the repo root
+ *
+ * A project can extend the theme by shipping tailwind.theme.json next to its
+ * index.tsx. The file holds what would go in `theme.extend` and is deep-merged
+ * over the root config's extensions:
+ *
+ *   { "colors": { "brand": "#0f766e" }, "fontFamily": { "display": ["Oswald", "sans-serif"] } }
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import autoprefixer from 'autoprefixer';
+import type { AcceptedPlugin } from 'postcss';
+import tailwindcss, { type Config } from 'tailwindcss';
+import { REVISIONS_DIR } from './revisions.ts';
+
+export const THEME_FILENAME = 'tailwind.theme.json';
+
+const BASE_CONFIG_PATH = path.join(process.cwd(), 'tailwind.config.js');
+
+// Files Tailwind scans for class names
+const CONTENT_EXTENSIONS = '{html,js,ts,jsx,tsx,md,mdx}';
+
+type ThemeExtension = Record<string, unknown>;
+
+export class TailwindThemeError extends Error {
+  constructor(file: string, message: string) {
+    super(`Invalid Tailwind theme ${path.relative(process.cwd(), file) || file}: ${message}`);
+    this.name = 'TailwindThemeError';
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merges nested objects key by key; anything else in `extension` replaces the base value.
+ */
+function mergeDeep(base: Record<string, unknown>, extension: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(extension)) {
+    const current = merged[key];
+    merged[key] = isPlainObject(current) && isPlainObject(value) ? mergeDeep(current, value) : value;
+  }
+  return merged;
+}
+
+/**
+ * Reads the project's tailwind.theme.json, or null if it has none.
+ */
+export function loadThemeExtension(projectDir: string): ThemeExtension | null {
+  const file = path.join(projectDir, THEME_FILENAME);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new TailwindThemeError(file, `not valid JSON (${(error as Error).message})`);
+  }
+  if (!isPlainObject(raw)) {
+    throw new TailwindThemeError(file, 'must be a JSON object of theme.extend keys, e.g. { "colors": { ... } }');
+  }
+  return raw;
+}
+
+/**
+ * The root tailwind.config.js, scoped to the project's sources and extended
+ * with its theme file. Archived revisions under the project are not scanned;
+ * they are built with their own config.
+ */
+export async function createTailwindConfig(projectDir: string): Promise<Config> {
+  const { default: base } = await import(pathToFileURL(BASE_CONFIG_PATH).href) as { default: Config };
+  const root = projectDir.split(path.sep).join('/');
+  const theme = base.theme ?? {};
+  const extension = loadThemeExtension(projectDir);
+
+  return {
+    ...base,
+    content: [
+      `${root}/**/*.${CONTENT_EXTENSIONS}`,
+      `!${root}/${REVISIONS_DIR}/**`,
+      `!${root}/**/node_modules/**`,
+    ],
+    theme: extension
+      ? { ...theme, extend: mergeDeep((theme.extend ?? {}) as Record<string, unknown>, extension) }
+      : theme,
+  };
+}
+
+/**
+ * Inline PostCSS config for Vite, replacing the root postcss.config.js.
+ */
+export async function createPostcssConfig(projectDir: string): Promise<{ plugins: AcceptedPlugin[] }> {
+  return {
+    plugins: [tailwindcss(await createTailwindConfig(projectDir)), autoprefixer()],
+  };
+}
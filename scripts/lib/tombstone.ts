@@ -0,0 +1,60 @@
+/**
+ * Tombstones
+ * The page left at a removed project's URL when it is taken down with
+ * `npm run remove -- <name> --tombstone`, so old links explain what happened
+ * instead of failing with a bare 404
+ *
+ * A tombstone is an ordinary build directory (index.html + README.txt), so
+ * deploy-all keeps publishing it like any other project until it is deleted
+ * from builds/.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { escapeHtml } from './html.ts';
+
+export function renderTombstonePage(title: string, removedOn: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)} (removed)</title>
+  <meta name="robots" content="noindex">
+  <style>
+    body {
+      margin: 0;
+      min-height: 100vh;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      font-family: system-ui, -apple-system, sans-serif;
+      background: #fafaf9;
+      color: #1c1917;
+    }
+    main { max-width: 32rem; padding: 2rem; text-align: center; }
+    h1 { font-size: 1.5rem; margin: 0 0 0.75rem; }
+    p { color: #57534e; line-height: 1.5; }
+    a { color: #b45309; }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>${escapeHtml(title)}</h1>
+    <p>This document was removed on <time datetime="${escapeHtml(removedOn)}">${escapeHtml(removedOn)}</time>.</p>
+    <p><a href="../">Browse the other documents</a></p>
+  </main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Replaces everything in `buildDir` with a tombstone page and its README.txt.
+ */
+export function writeTombstone(buildDir: string, title: string, removedOn: string): void {
+  fs.rmSync(buildDir, { recursive: true, force: true });
+  fs.mkdirSync(buildDir, { recursive: true });
+  fs.writeFileSync(path.join(buildDir, 'index.html'), renderTombstonePage(title, removedOn));
+  fs.writeFileSync(path.join(buildDir, 'README.txt'), `${title}\nThis document was removed on ${removedOn}.`);
+}
@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeTsxProject,
+  findComponentExport,
+  findImportedPackages,
+  findMissingPackages,
+  isGeneratedMainTsx,
+  renderMainTsx,
+} from './tsx-analysis.ts';
+
+function componentOf(source: string) {
+  return findComponentExport(source, 'index.tsx');
+}
+
+describe('findComponentExport', () => {
+  it.each([
+    ['export default function Timeline() { return <div />; }'],
+    ['const Timeline = () => <div />;\nexport default Timeline;'],
+    ['function Timeline() { return <div />; }\nexport { Timeline as default };'],
+  ])('prefers the default export: %s', source => {
+    expect(componentOf(source)).toEqual({ component: { kind: 'default' }, otherComponents: [] });
+  });
+
+  it('prefers an exported App among several components', () => {
+    expect(componentOf('export const Card = () => <div />;\nexport function App() { return <Card />; }'))
+      .toEqual({ component: { kind: 'named', name: 'App' }, otherComponents: [] });
+  });
+
+  it('picks the last component that renders JSX and reports the others', () => {
+    const source = [
+      'export const Legend = memo(LegendImpl);',
+      'export function Chart() { return <svg />; }',
+      'export function Dashboard() { return <main><Chart /></main>; }',
+    ].join('\n');
+    expect(componentOf(source)).toEqual({
+      component: { kind: 'named', name: 'Dashboard' },
+      otherComponents: ['Legend', 'Chart'],
+    });
+  });
+
+  it('ignores constants, lowercase functions and types', () => {
+    const source = [
+      'export const COLORS = { red: "#f00" };',
+      'export function formatDate(d: Date) { return d.toISOString(); }',
+      'export type Props = { title: string };',
+      'export interface State { open: boolean }',
+    ].join('\n');
+    expect(componentOf(source)).toEqual({ component: null, otherComponents: [] });
+  });
+
+  it('follows export lists to their declarations', () => {
+    expect(componentOf('const Viewer = () => <div />;\nconst SIZE = 3;\nexport { Viewer, SIZE };'))
+      .toEqual({ component: { kind: 'named', name: 'Viewer' }, otherComponents: [] });
+  });
+});
+
+describe('findImportedPackages', () => {
+  it('collects runtime imports by package name', () => {
+    const source = [
+      "import React from 'react';",
+      "import { createRoot } from 'react-dom/client';",
+      "import * as Dialog from '@radix-ui/react-dialog';",
+      "import './index.css';",
+      "import { helper } from './helper';",
+      "export { Icon } from 'lucide-react';",
+      "const d3 = await import('d3');",
+    ].join('\n');
+    expect(findImportedPackages(source, 'index.tsx'))
+      .toEqual(['@radix-ui/react-dialog', 'd3', 'lucide-react', 'react', 'react-dom']);
+  });
+
+  it('leaves out type-only imports', () => {
+    expect(findImportedPackages("import type { FC } from 'react';\nexport type { Foo } from 'foo';", 'index.tsx'))
+      .toEqual([]);
+  });
+});
+
+describe('analyzeTsxProject', () => {
+  it('reads the entry and sibling scripts, but not other files', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tsx-analysis-'));
+    try {
+      const write = (name: string, content: string) => {
+        fs.writeFileSync(path.join(dir, name), content);
+        return [name, path.join(dir, name)] as const;
+      };
+      const files = new Map([
+        write('index.tsx', "import { Chart } from './chart';\nexport default function App() { return <Chart />; }"),
+        write('chart.tsx', "import * as d3 from 'd3';\nexport function Chart() { return <svg />; }"),
+        write('notes.md', "import x from 'not-a-package'"),
+      ]);
+      const packageJson = write('package.json', JSON.stringify({ dependencies: { react: '^18' } }))[1];
+
+      const analysis = analyzeTsxProject('index.tsx', files);
+      expect(analysis).toEqual({ component: { kind: 'default' }, otherComponents: [], packages: ['d3'] });
+      expect(findMissingPackages(['d3', 'react'], packageJson)).toEqual(['d3']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('main.tsx', () => {
+  it('imports the chosen component as App', () => {
+    expect(renderMainTsx({ kind: 'default' })).toContain("import App from './index.tsx'");
+    expect(renderMainTsx({ kind: 'named', name: 'App' })).toContain("import { App } from './index.tsx'");
+    expect(renderMainTsx({ kind: 'named', name: 'Chart' })).toContain("import { Chart as App } from './index.tsx'");
+  });
+
+  it('recognises a generated main.tsx whatever component it imports', () => {
+    expect(isGeneratedMainTsx(renderMainTsx({ kind: 'default' }))).toBe(true);
+    expect(isGeneratedMainTsx(`${renderMainTsx({ kind: 'named', name: 'Chart' })}\n`)).toBe(true);
+  });
+
+  it('leaves an edited main.tsx alone', () => {
+    const edited = renderMainTsx({ kind: 'default' }).replace('<App />', '<App theme="dark" />');
+    expect(isGeneratedMainTsx(edited)).toBe(false);
+    expect(isGeneratedMainTsx("import App from './App'\n")).toBe(false);
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * TSX Analysis
+ * Inspects imported .tsx sources with the TypeScript compiler API: which export
+ * is the component main.tsx should render, and which npm packages the code
+ * imports, so problems surface at import time instead of deep inside Vite
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import ts from 'typescript';
+
+// Sibling modules in a bundle whose imports count towards its packages
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs'];
+
+export type ComponentExport =
+  | { kind: 'default' }
+  | { kind: 'named'; name: string };
+
+export interface TsxAnalysis {
+  /** The export main.tsx renders, or null if nothing looks like a component */
+  component: ComponentExport | null;
+  /** Other exported components, when the choice was ambiguous */
+  otherComponents: string[];
+  /** npm packages imported at runtime, e.g. "react", "@radix-ui/react-dialog" */
+  packages: string[];
+}
+
+export class TsxAnalysisError extends Error {
+  constructor(file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = 'TsxAnalysisError';
+  }
+}
+
+function parseSource(source: string, fileName: string): ts.SourceFile {
+  const kind = /\.[jt]sx$/.test(fileName) ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  return ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true, kind);
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node)?.some(modifier => modifier.kind === kind) ?? false);
+}
+
+/**
+ * PascalCase names, which React requires for components (and which rule out
+ * constants such as COLORS).
+ */
+function isComponentName(name: string): boolean {
+  return /^[A-Z]/.test(name) && /[a-z]/.test(name);
+}
+
+/**
+ * Whether a declaration can be rendered: a function, a class, or a variable
+ * holding a function or the result of a call such as memo() or forwardRef().
+ */
+function isComponentDeclaration(node: ts.Node): boolean {
+  if (ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) {
+    return true;
+  }
+  if (ts.isVariableDeclaration(node) && node.initializer) {
+    let initializer = node.initializer;
+    while (ts.isAsExpression(initializer) || ts.isParenthesizedExpression(initializer)) {
+      initializer = initializer.expression;
+    }
+    return ts.isArrowFunction(initializer)
+      || ts.isFunctionExpression(initializer)
+      || ts.isClassExpression(initializer)
+      || ts.isCallExpression(initializer);
+  }
+  return false;
+}
+
+/**
+ * The package an import specifier belongs to, or null for relative and
+ * absolute paths: "react-dom/client" → "react-dom", "@scope/pkg/x" → "@scope/pkg".
+ */
+function packageName(specifier: string): string | null {
+  if (specifier.startsWith('.') || specifier.startsWith('/')) {
+    return null;
+  }
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+/**
+ * Packages imported by a module at runtime. Type-only imports are left out,
+ * since they are erased before bundling.
+ */
+export function findImportedPackages(source: string, fileName: string): string[] {
+  const sourceFile = parseSource(source, fileName);
+  const specifiers: string[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) && !node.importClause?.isTypeOnly && ts.isStringLiteral(node.moduleSpecifier)) {
+      specifiers.push(node.moduleSpecifier.text);
+    } else if (ts.isExportDeclaration(node) && !node.isTypeOnly && node.moduleSpecifier
+      && ts.isStringLiteral(node.moduleSpecifier)) {
+      specifiers.push(node.moduleSpecifier.text);
+    } else if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword
+      && node.arguments.length === 1 && ts.isStringLiteral(node.arguments[0])) {
+      specifiers.push(node.arguments[0].text);   // import('pkg')
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  const packages = specifiers.map(packageName).filter((name): name is string => name !== null);
+  return [...new Set(packages)].sort();
+}
+
+function containsJsx(node: ts.Node): boolean {
+  if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) {
+    return true;
+  }
+  return ts.forEachChild(node, containsJsx) ?? false;
+}
+
+/**
+ * Picks the component to render: the default export if there is one, else an
+ * exported component named App, else the only exported component. With several
+ * candidates the last one that renders JSX is used (helpers tend to come
+ * first) and the rest are reported.
+ */
+export function findComponentExport(source: string, fileName: string): Omit<TsxAnalysis, 'packages'> {
+  const sourceFile = parseSource(source, fileName);
+
+  // Top-level declarations by name, to classify `export { Name }`
+  const declarations = new Map<string, ts.Node>();
+  for (const statement of sourceFile.statements) {
+    if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name) {
+      declarations.set(statement.name.text, statement);
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) declarations.set(declaration.name.text, declaration);
+      }
+    }
+  }
+
+  let hasDefault = false;
+  const named: string[] = [];
+  const rendersJsx = new Set<string>();
+  const addNamed = (name: string, declaration: ts.Node | undefined) => {
+    if (!isComponentName(name) || !declaration || !isComponentDeclaration(declaration)) return;
+    named.push(name);
+    if (containsJsx(declaration)) rendersJsx.add(name);
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      hasDefault = true;   // export default <expression>
+    } else if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      if (hasModifier(statement, ts.SyntaxKind.DefaultKeyword)) {
+        hasDefault = true;   // export default function / class
+      } else if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name) {
+        addNamed(statement.name.text, statement);
+      } else if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (ts.isIdentifier(declaration.name)) addNamed(declaration.name.text, declaration);
+        }
+      }
+    } else if (ts.isExportDeclaration(statement) && !statement.isTypeOnly && !statement.moduleSpecifier
+      && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) {
+        if (element.isTypeOnly) continue;
+        const local = (element.propertyName ?? element.name).text;
+        if (element.name.text === 'default') {
+          hasDefault = true;   // export { App as default }
+        } else {
+          addNamed(element.name.text, declarations.get(local));
+        }
+      }
+    }
+  }
+
+  if (hasDefault) {
+    return { component: { kind: 'default' }, otherComponents: [] };
+  }
+  if (named.includes('App')) {
+    return { component: { kind: 'named', name: 'App' }, otherComponents: [] };
+  }
+  const preferred = named.filter(name => rendersJsx.has(name));
+  const chosen = (preferred.length > 0 ? preferred : named).at(-1);
+  if (!chosen) {
+    return { component: null, otherComponents: [] };
+  }
+  return { component: { kind: 'named', name: chosen }, otherComponents: named.filter(name => name !== chosen) };
+}
+
+/**
+ * Analyses a project's entry file plus any sibling scripts. `files` maps paths
+ * relative to the project to the files they are read from.
+ */
+export function analyzeTsxProject(entryFile: string, files: Map<string, string>): TsxAnalysis {
+  const packages = new Set<string>();
+  let component: Omit<TsxAnalysis, 'packages'> = { component: null, otherComponents: [] };
+  for (const [file, sourcePath] of files) {
+    if (!SCRIPT_EXTENSIONS.includes(path.extname(file))) continue;
+    const source = fs.readFileSync(sourcePath, 'utf-8');
+    findImportedPackages(source, file).forEach(name => packages.add(name));
+    if (file === entryFile) component = findComponentExport(source, file);
+  }
+  return { ...component, packages: [...packages].sort() };
+}
+
+/**
+ * The packages not listed in package.json's dependencies or devDependencies.
+ */
+export function findMissingPackages(packages: string[], packageJsonPath: string): string[] {
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+  const declared = new Set([
+    ...Object.keys(packageJson.dependencies ?? {}),
+    ...Object.keys(packageJson.devDependencies ?? {}),
+  ]);
+  return packages.filter(name => !declared.has(name));
+}
+
+/**
+ * The import line main.tsx uses to bring the component in as `App`.
+ */
+export function componentImport(component: ComponentExport, entryModule: string): string {
+  return component.kind === 'default'
+    ? `import App from '${entryModule}'`
+    : component.name === 'App'
+      ? `import { App } from '${entryModule}'`
+      : `import { ${component.name} as App } from '${entryModule}'`;
+}
+
+/**
+ * The main.tsx the importer generates to mount the component from index.tsx.
+ */
+export function renderMainTsx(component: ComponentExport): string {
+  return `import React from 'react'
+import ReactDOM from 'react-dom/client'
+${componentImport(component, './index.tsx')}
+import './index.css'
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>,
+)`;
+}
+
+const GENERATED_IMPORT = /^import (?:App|\{ (\w+)(?: as App)? \}) from '\.\/index\.tsx'$/m;
+
+/**
+ * Whether a main.tsx is one renderMainTsx generated, for any component, as
+ * opposed to one shipped in a bundle or edited by hand. A re-import replaces
+ * only generated ones, so their import follows the new component.
+ */
+export function isGeneratedMainTsx(source: string): boolean {
+  const match = source.match(GENERATED_IMPORT);
+  if (!match) return false;
+  const component: ComponentExport = match[1] ? { kind: 'named', name: match[1] } : { kind: 'default' };
+  return source.trimEnd() === renderMainTsx(component);
+}
@@ -0,0 +1,291 @@
+/**
+ * Vendoring of external assets
+ * Rewrites external stylesheet, font and script URLs in a built html project to
+ * local copies taken from the vendor cache, so the page works without reaching
+ * third-party hosts
+ *
+ * The cache is a directory with a vendor.json mapping each external URL to a
+ * file inside it:
+ *
+ *   vendor-cache/vendor.json
+ *     { "https://d3js.org/d3.v7.min.js": "d3/d3.v7.min.js" }
+ *
+ * Vendored files are copied to builds/<project>/vendor/<cache path>. Vendored
+ * stylesheets are processed too, so the font files a Google Fonts stylesheet
+ * points at are vendored (and must be in the cache) as well. Nothing is
+ * downloaded at build time; `npm run vendor-add -- <url>` fills the cache.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getAttribute, lineAt, stripNonMarkup } from './html.ts';
+
+export const VENDOR_OUTPUT_DIR = 'vendor';
+export const VENDOR_MANIFEST_FILENAME = 'vendor.json';
+
+export interface VendorCache {
+  dir: string;
+  entries: Record<string, string>;   // External URL -> path relative to dir
+}
+
+export interface UnvendoredReference {
+  file: string;        // Path relative to the project's build directory
+  line: number;
+  url: string;
+}
+
+export interface VendorReport {
+  vendored: string[];                // External URLs rewritten to local copies
+  missing: UnvendoredReference[];
+}
+
+const TAG_PATTERN = /<(script|link)\b[^>]*>/gi;
+const STYLE_BLOCK_PATTERN = /(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi;
+const STYLE_ATTRIBUTE_PATTERN = /(\sstyle\s*=\s*)("[^"]*"|'[^']*')/gi;
+const CSS_IMPORT_PATTERN = /(@import\s+)(["'])([^"']+)\2/gi;
+const CSS_URL_PATTERN = /url\(\s*(["']?)([^)"']+)\1\s*\)/gi;
+const HINT_PATTERN = /<link\b[^>]*\brel\s*=\s*["']?(?:preconnect|dns-prefetch)["']?[^>]*>[ \t]*\r?\n?/gi;
+
+export class VendorCacheError extends Error {
+  constructor(file: string, message: string) {
+    const relativeFile = path.relative(process.cwd(), file) || file;
+    super(`Invalid vendor cache ${relativeFile}: ${message}`);
+    this.name = 'VendorCacheError';
+  }
+}
+
+/**
+ * Whether a cache path is relative and stays inside the cache directory.
+ */
+export function isCachePath(value: string): boolean {
+  const normalized = path.posix.normalize(value);
+  return !path.posix.isAbsolute(normalized) && normalized !== '.' && normalized !== '..' && !normalized.startsWith('../');
+}
+
+export function loadVendorCache(dir: string): VendorCache {
+  const manifestPath = path.join(dir, VENDOR_MANIFEST_FILENAME);
+  if (!fs.existsSync(manifestPath)) {
+    return { dir, entries: {} };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  } catch (error) {
+    throw new VendorCacheError(manifestPath, `not valid JSON (${(error as Error).message})`);
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new VendorCacheError(manifestPath, 'must be an object mapping external URLs to cache paths');
+  }
+  for (const [url, file] of Object.entries(raw)) {
+    if (!/^https?:\/\//i.test(url)) {
+      throw new VendorCacheError(manifestPath, `"${url}" is not an http(s) URL`);
+    }
+    if (typeof file !== 'string' || !isCachePath(file)) {
+      throw new VendorCacheError(manifestPath, `"${url}" must map to a relative path inside ${path.basename(dir)}/`);
+    }
+  }
+  return { dir, entries: raw as Record<string, string> };
+}
+
+/**
+ * External URLs a stylesheet at `baseUrl` imports or references with url(),
+ * which must be in the cache too for the stylesheet to be vendored fully.
+ */
+export function cssReferences(css: string, baseUrl: string): string[] {
+  const urls = [
+    ...[...css.matchAll(CSS_IMPORT_PATTERN)].map(match => match[3]),
+    ...[...css.matchAll(CSS_URL_PATTERN)].map(match => match[2].trim()),
+  ];
+  return [...new Set(urls.filter(url => !url.startsWith('data:')).map(url => normalizeUrl(new URL(url, baseUrl).href)))];
+}
+
+function isExternal(url: string): boolean {
+  return /^(?:https?:)?\/\//i.test(url);
+}
+
+function normalizeUrl(url: string): string {
+  const decoded = url.replace(/&amp;/g, '&');
+  return decoded.startsWith('//') ? `https:${decoded}` : decoded;
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join('/');
+}
+
+class ProjectVendorer {
+  private readonly copied = new Map<string, string>();   // URL -> absolute output path
+  readonly report: VendorReport = { vendored: [], missing: [] };
+
+  constructor(
+    private readonly buildDir: string,
+    private readonly cache: VendorCache,
+  ) {}
+
+  /**
+   * Copies the cached file for `url` into the build and returns its path, or
+   * null if the cache has no entry for it.
+   */
+  private vendor(url: string): string | null {
+    const normalized = normalizeUrl(url);
+    const existing = this.copied.get(normalized);
+    if (existing) {
+      return existing;
+    }
+
+    const cached = this.cache.entries[normalized]
+      ?? this.cache.entries[normalized.replace(/^https:/, 'http:')];
+    const source = cached ? path.join(this.cache.dir, cached) : null;
+    if (!cached || !source || !fs.existsSync(source)) {
+      return null;
+    }
+
+    const target = path.join(this.buildDir, VENDOR_OUTPUT_DIR, cached);
+    this.copied.set(normalized, target);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.copyFileSync(source, target);
+    this.report.vendored.push(normalized);
+
+    // Fonts and images referenced by a vendored stylesheet need vendoring too
+    if (path.extname(target).toLowerCase() === '.css' || /fonts\.googleapis\.com/.test(normalized)) {
+      const css = fs.readFileSync(target, 'utf-8');
+      fs.writeFileSync(target, this.rewriteCss(css, target, 0, css, normalized));
+    }
+    return target;
+  }
+
+  /**
+   * Returns the local replacement for `url` as seen from `fromFile`, recording
+   * it as missing when it cannot be vendored. Non-external URLs are returned as-is.
+   */
+  private replace(url: string, fromFile: string, index: number, source: string, baseUrl?: string): string {
+    let absolute = url;
+    if (!isExternal(url)) {
+      if (!baseUrl || url.startsWith('data:')) {
+        return url;
+      }
+      absolute = new URL(url, baseUrl).href;
+    }
+
+    const local = this.vendor(absolute);
+    if (!local) {
+      this.report.missing.push({
+        file: toPosix(path.relative(this.buildDir, fromFile)),
+        line: lineAt(source, index),
+        url: normalizeUrl(absolute),
+      });
+      return url;
+    }
+    return toPosix(path.relative(path.dirname(fromFile), local));
+  }
+
+  /**
+   * Rewrites @import and url() references in CSS. `offset`/`source` locate the
+   * CSS within its file for line numbers; `baseUrl` resolves relative URLs in
+   * stylesheets that were themselves vendored.
+   */
+  rewriteCss(css: string, file: string, offset: number, source: string, baseUrl?: string): string {
+    return css
+      .replace(CSS_IMPORT_PATTERN, (match, prefix: string, quote: string, url: string, index: number) => {
+        const local = this.replace(url, file, offset + index, source, baseUrl);
+        return local === url ? match : `${prefix}${quote}${local}${quote}`;
+      })
+      .replace(CSS_URL_PATTERN, (match, quote: string, url: string, index: number) => {
+        const local = this.replace(url.trim(), file, offset + index, source, baseUrl);
+        return local === url.trim() ? match : `url(${quote}${local}${quote})`;
+      });
+  }
+
+  rewriteHtml(html: string, file: string): string {
+    const markup = stripNonMarkup(html);
+    const edits: { start: number; end: number; text: string }[] = [];
+
+    for (const match of markup.matchAll(TAG_PATTERN)) {
+      const tag = html.slice(match.index!, match.index! + match[0].length);
+      const isScript = match[1].toLowerCase() === 'script';
+      const attribute = isScript ? 'src' : 'href';
+      const rel = (getAttribute(tag, 'rel') ?? '').toLowerCase();
+      if (!isScript && !/\b(?:stylesheet|preload|modulepreload)\b/.test(rel)) continue;
+
+      const url = getAttribute(tag, attribute);
+      if (!url || !isExternal(url)) continue;
+
+      const local = this.replace(url, file, match.index!, html);
+      if (local !== url) {
+        edits.push({ start: match.index!, end: match.index! + tag.length, text: tag.replace(url, local) });
+      }
+    }
+
+    for (const match of markup.matchAll(STYLE_BLOCK_PATTERN)) {
+      const bodyStart = match.index! + match[1].length;
+      const body = html.slice(bodyStart, bodyStart + match[2].length);
+      const rewritten = this.rewriteCss(body, file, bodyStart, html);
+      if (rewritten !== body) {
+        edits.push({ start: bodyStart, end: bodyStart + body.length, text: rewritten });
+      }
+    }
+
+    for (const match of markup.matchAll(STYLE_ATTRIBUTE_PATTERN)) {
+      const valueStart = match.index! + match[1].length;
+      const value = html.slice(valueStart, valueStart + match[2].length);
+      const rewritten = this.rewriteCss(value, file, valueStart, html);
+      if (rewritten !== value) {
+        edits.push({ start: valueStart, end: valueStart + value.length, text: rewritten });
+      }
+    }
+
+    let output = html;
+    for (const edit of edits.sort((a, b) => b.start - a.start)) {
+      output = output.slice(0, edit.start) + edit.text + output.slice(edit.end);
+    }
+    return removeUnusedHints(output);
+  }
+}
+
+/**
+ * Drops preconnect/dns-prefetch hints for origins the page no longer loads from.
+ */
+function removeUnusedHints(html: string): string {
+  return html.replace(HINT_PATTERN, hint => {
+    const href = getAttribute(hint, 'href');
+    if (!href || !isExternal(href)) return hint;
+    const origin = new URL(normalizeUrl(href)).host;
+    const remaining = html.replace(HINT_PATTERN, '');
+    return remaining.includes(`//${origin}`) ? hint : '';
+  });
+}
+
+function listFiles(dir: string, skipDir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (full !== skipDir) files.push(...listFiles(full, skipDir));
+    } else {
+      files.push(full);
+    }
+  }
+  return files;
+}
+
+/**
+ * Vendors the external assets of every HTML and CSS file in `buildDir`, in place.
+ */
+export function vendorProject(buildDir: string, cache: VendorCache): VendorReport {
+  const vendorer = new ProjectVendorer(buildDir, cache);
+  const outputDir = path.join(buildDir, VENDOR_OUTPUT_DIR);
+
+  for (const file of listFiles(buildDir, outputDir)) {
+    const ext = path.extname(file).toLowerCase();
+    if (ext !== '.html' && ext !== '.htm' && ext !== '.css') continue;
+
+    const source = fs.readFileSync(file, 'utf-8');
+    const rewritten = ext === '.css'
+      ? vendorer.rewriteCss(source, file, 0, source)
+      : vendorer.rewriteHtml(source, file);
+    if (rewritten !== source) {
+      fs.writeFileSync(file, rewritten);
+    }
+  }
+  return vendorer.report;
+}
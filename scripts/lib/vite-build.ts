@@ -0,0 +1,167 @@
+/**
+ * In-process Vite builds for tsx projects
+ *
+ * Each project is built through Vite's JavaScript API with an in-memory config,
+ * so no temporary config files are written and paths never pass through a shell.
+ * Tailwind is configured per project (see tailwind.ts).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import react from '@vitejs/plugin-react';
+import { createElement, type ComponentType } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { build, createLogger, createServer, type InlineConfig, type Logger } from 'vite';
+import { createPostcssConfig } from './tailwind.ts';
+import { findComponentExport } from './tsx-analysis.ts';
+
+export interface ViteBuildOptions {
+  projectName: string;
+  projectDir: string;
+  buildDir: string;
+  base: string;
+}
+
+export interface BuildErrorLocation {
+  file: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * A failed Vite build, carrying whatever location details Rollup/esbuild reported.
+ */
+export class TsxBuildError extends Error {
+  readonly projectName: string;
+  readonly location?: BuildErrorLocation;
+  readonly plugin?: string;
+  readonly frame?: string;
+
+  constructor(projectName: string, cause: unknown) {
+    const details = (cause ?? {}) as {
+      message?: string;
+      id?: string;
+      loc?: { file?: string; line: number; column: number };
+      plugin?: string;
+      frame?: string;
+      errors?: { text?: string }[];
+    };
+    super(summarizeMessage(details.message ?? String(cause), details.errors?.[0]?.text));
+    this.name = 'TsxBuildError';
+    this.projectName = projectName;
+    this.plugin = details.plugin;
+    this.frame = details.frame;
+
+    const file = details.loc?.file ?? details.id;
+    if (file) {
+      this.location = { file, line: details.loc?.line, column: details.loc?.column };
+    }
+  }
+
+  /**
+   * Multi-line, indented description suitable for the build log.
+   */
+  format(indent = '   '): string {
+    const lines: string[] = [];
+    if (this.location) {
+      const { file, line, column } = this.location;
+      const position = line !== undefined ? `:${line}${column !== undefined ? `:${column}` : ''}` : '';
+      const plugin = this.plugin ? ` [${this.plugin}]` : '';
+      lines.push(`${path.relative(process.cwd(), file)}${position}${plugin}`);
+    }
+    lines.push(this.message);
+    if (this.frame) {
+      const frameLines = this.frame.replace(/^\s*\n|\s+$/g, '').split('\n');
+      // esbuild frames repeat the message on their first line
+      if (frameLines[0]?.trim() === this.message) frameLines.shift();
+      lines.push(...frameLines);
+    }
+    return lines.map(line => `${indent}${line}`).join('\n');
+  }
+}
+
+/**
+ * esbuild errors are wrapped by Vite into a multi-line message that repeats the
+ * file and code frame, so prefer esbuild's own text and otherwise keep only the
+ * first line without the "[plugin]" prefix.
+ */
+function summarizeMessage(message: string, esbuildText?: string): string {
+  if (esbuildText) {
+    return esbuildText;
+  }
+  const firstLine = message.split('\n').find(line => line.trim().length > 0) ?? message;
+  return firstLine.replace(/^\[[^\]]+\]\s*/, '');
+}
+
+/**
+ * Vite's own logger, prefixed with the project name so concurrent builds can be
+ * told apart. Errors are left to TsxBuildError instead of being printed twice.
+ */
+function createProjectLogger(projectName: string): Logger {
+  const logger = createLogger('warn', { prefix: `[${projectName}]` });
+  return { ...logger, error: () => {} };
+}
+
+export async function createViteConfig(options: ViteBuildOptions): Promise<InlineConfig> {
+  return {
+    configFile: false,
+    root: options.projectDir,
+    base: options.base,
+    plugins: [react()],
+    css: {
+      postcss: await createPostcssConfig(options.projectDir),
+    },
+    logLevel: 'warn',
+    customLogger: createProjectLogger(options.projectName),
+    build: {
+      outDir: options.buildDir,
+      emptyOutDir: true,
+    },
+  };
+}
+
+export async function buildTsxWithVite(options: ViteBuildOptions): Promise<void> {
+  try {
+    await build(await createViteConfig(options));
+  } catch (error) {
+    throw new TsxBuildError(options.projectName, error);
+  }
+}
+
+/**
+ * Renders a tsx project's component to static HTML on the server, as it looks
+ * before any effects run. Components that touch the DOM while rendering
+ * cannot be rendered this way and throw.
+ */
+export async function renderTsxToHtml(projectDir: string): Promise<string> {
+  const entry = path.join(projectDir, 'index.tsx');
+  const { component } = findComponentExport(fs.readFileSync(entry, 'utf-8'), 'index.tsx');
+  if (!component) {
+    throw new Error('index.tsx exports no component');
+  }
+
+  const server = await createServer({
+    configFile: false,
+    root: projectDir,
+    plugins: [react(), {
+      // The React plugin asks for react to be pre-bundled, which rendering on
+      // the server never uses. A pre-bundle still running when the server
+      // closes makes esbuild print "The build was canceled".
+      name: 'no-prebundle',
+      enforce: 'post',
+      config(config) {
+        config.optimizeDeps = { ...config.optimizeDeps, noDiscovery: true, include: [] };
+      },
+    }],
+    logLevel: 'silent',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+  });
+  try {
+    const module = await server.ssrLoadModule('/index.tsx');
+    const Component = (component.kind === 'default' ? module.default : module[component.name]) as ComponentType;
+    return renderToStaticMarkup(createElement(Component));
+  } finally {
+    await server.close();
+  }
+}
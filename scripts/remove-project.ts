@@ -0,0 +1,332 @@
+#!/usr/bin/env tsx
+/**
+ * Project Removal Script
+ * Takes a project down everywhere: its source, its build output and its
+ * deployed files, then regenerates the gallery, feed, sitemap and search index
+ *
+ * Usage:
+ *   npm run remove -- project-name                 # Remove locally and from the target
+ *   npm run remove -- project-name --tombstone     # Leave a "this document was removed" page
+ *   npm run remove -- project-name --local-only    # Leave the deployed copy alone
+ *   npm run remove -- project-name --target=local  # Remove from another deploy target
+ *   npm run remove -- project-name --dry-run       # Show what would be removed
+ *
+ * The project is looked up by directory or project.json name. It is also
+ * removed when only its build or deployed copy is left (e.g. after deleting
+ * projects/<name> by hand). Old slugs that redirect to it (project-aliases.json)
+ * are removed along with it, or get a tombstone too.
+ *
+ * Deployed files are found through the project's deploy manifest on the target;
+ * without one, nothing is deleted there and the directory has to be removed by
+ * hand. The updated site files (gallery, feed, ...) are uploaded afterwards, and the
+ * Cloudflare cache is purged as on deploy.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AliasMapError, ALIASES_FILENAME, loadAliases, saveAliases } from './lib/aliases.ts';
+import { loadBuildManifest, saveBuildManifest } from './lib/build-manifest.ts';
+import { purgeCloudflareCache } from './lib/deploy/cloudflare.ts';
+import {
+  createLocalManifest,
+  DEPLOY_MANIFEST_FILENAME,
+  planDeploy,
+  readRemoteManifest,
+  writeRemoteManifest,
+} from './lib/deploy/manifest.ts';
+import { createDeployTarget, type DeployTarget } from './lib/deploy/target.ts';
+import { writeFeeds } from './lib/feed.ts';
+import { writeGallery } from './lib/gallery.ts';
+import { isSlug, loadProjectMetadata, MetadataValidationError, today } from './lib/metadata.ts';
+import { writeSearchIndex } from './lib/search.ts';
+import { loadSiteConfig, SITE_FILES, SiteConfigError, type SiteConfig } from './lib/site.ts';
+import { writeTombstone } from './lib/tombstone.ts';
+
+const PROJECTS_DIR = path.join(process.cwd(), 'projects');
+const BUILDS_DIR = path.join(process.cwd(), 'builds');
+const ALIASES_PATH = path.join(process.cwd(), ALIASES_FILENAME);
+
+let site: SiteConfig;
+try {
+  site = loadSiteConfig();
+} catch (error) {
+  if (!(error instanceof SiteConfigError)) throw error;
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+const SITE_URL = site.siteUrl;
+
+interface RemoveOptions {
+  tombstone: boolean;
+  localOnly: boolean;
+  dryRun: boolean;
+}
+
+/**
+ * Whether `child` lies strictly inside `parent` (not the directory itself).
+ * `paths` is path.posix for paths on the deploy target.
+ */
+function isInside(parent: string, child: string, paths: typeof path.posix = path): boolean {
+  const relative = paths.relative(parent, child);
+  return relative !== '' && relative !== '..' && !relative.startsWith(`..${paths.sep}`) && !paths.isAbsolute(relative);
+}
+
+/**
+ * `name` resolved under `dir`, refusing anything that is not strictly inside it.
+ */
+function resolveInside(dir: string, name: string): string {
+  const resolved = path.resolve(dir, name);
+  if (!isInside(dir, resolved)) {
+    throw new Error(`Refusing to delete ${resolved}: not inside ${path.relative(process.cwd(), dir) || dir}/`);
+  }
+  return resolved;
+}
+
+/**
+ * The path of a deployed file on the target, refusing manifest entries that
+ * would reach outside the slug's directory.
+ */
+function remotePath(slug: string, file: string): string {
+  const relativePath = path.posix.join(slug, file);
+  if (!isInside(`/${slug}`, `/${relativePath}`)) {
+    throw new Error(`Refusing to delete ${relativePath} on the target: not inside ${slug}/`);
+  }
+  return relativePath;
+}
+
+/**
+ * The directory under projects/ holding `name`, matched by directory name
+ * first and project.json name second.
+ */
+function findProjectDir(name: string): string | null {
+  if (!fs.existsSync(PROJECTS_DIR)) {
+    return null;
+  }
+  const direct = resolveInside(PROJECTS_DIR, name);
+  if (fs.existsSync(direct)) {
+    return direct;
+  }
+  for (const entry of fs.readdirSync(PROJECTS_DIR, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const dir = path.join(PROJECTS_DIR, entry.name);
+    if (loadProjectMetadata(dir)?.name === name) {
+      return dir;
+    }
+  }
+  return null;
+}
+
+/**
+ * The project's title, from its metadata or else the first line of its built
+ * README.txt, for the tombstone.
+ */
+function findTitle(projectDir: string | null, name: string): string {
+  const metadata = projectDir ? loadProjectMetadata(projectDir) : null;
+  if (metadata) {
+    return metadata.title;
+  }
+  const readme = path.join(BUILDS_DIR, name, 'README.txt');
+  const firstLine = fs.existsSync(readme) ? fs.readFileSync(readme, 'utf-8').split('\n')[0].trim() : '';
+  return firstLine || name;
+}
+
+/**
+ * Deletes a slug's deployed files, or with a tombstone in builds/<slug>/,
+ * replaces them with it.
+ */
+async function removeDeployed(target: DeployTarget, slug: string, options: RemoveOptions): Promise<void> {
+  const remote = await readRemoteManifest(target, slug);
+  if (!remote) {
+    console.log(`   ⚠️  No deploy manifest at ${target.location}/${slug}/, nothing deleted there`);
+    console.log(`      If an older deploy exists, remove that directory by hand`);
+    if (!options.tombstone) return;
+  }
+
+  const files = Object.keys(remote?.files ?? {});
+  if (options.tombstone) {
+    if (options.dryRun) {
+      console.log(`   📝 Would replace ${files.length} deployed file(s) in ${slug}/ with a tombstone`);
+      return;
+    }
+    // Uploaded over whatever is there, then everything else is deleted
+    const local = createLocalManifest(path.join(BUILDS_DIR, slug));
+    const plan = planDeploy(local, remote, true);
+    await target.uploadFiles([...plan.add, ...plan.update].map(file => ({
+      localFile: path.join(BUILDS_DIR, slug, file),
+      relativePath: `${slug}/${file}`,
+    })));
+    await target.deleteFiles(plan.delete.map(file => remotePath(slug, file)));
+    await writeRemoteManifest(target, slug, local);
+    console.log(`   ✓ Replaced ${files.length} deployed file(s) in ${slug}/ with a tombstone`);
+    return;
+  }
+
+  if (options.dryRun) {
+    console.log(`   📝 Would delete ${files.length} deployed file(s) from ${target.location}/${slug}/`);
+    return;
+  }
+  await target.deleteFiles([...files, DEPLOY_MANIFEST_FILENAME].map(file => remotePath(slug, file)));
+  console.log(`   ✓ Deleted ${files.length} deployed file(s) from ${target.location}/${slug}/`);
+}
+
+async function uploadSiteFiles(target: DeployTarget, dryRun: boolean): Promise<void> {
+  const siteFiles = SITE_FILES.filter(file => fs.existsSync(path.join(BUILDS_DIR, file)));
+  if (dryRun) {
+    console.log(`   📝 Would upload ${siteFiles.join(', ')}`);
+    return;
+  }
+  for (const file of siteFiles) {
+    await target.uploadFile(path.join(BUILDS_DIR, file), file);
+  }
+  console.log(`   ✓ Uploaded ${siteFiles.join(', ')}`);
+}
+
+// Main execution
+console.log('🗑️  Project Removal\n');
+
+const args = process.argv.slice(2);
+const name = args.find(arg => !arg.startsWith('-'));
+const targetFlag = args.find(arg => arg.startsWith('--target='));
+const options: RemoveOptions = {
+  tombstone: args.includes('--tombstone'),
+  localOnly: args.includes('--local-only'),
+  dryRun: args.includes('--dry-run'),
+};
+
+if (!name) {
+  console.error('❌ Usage: npm run remove -- <project-name> [--tombstone] [--local-only] [--target=...] [--dry-run]');
+  process.exit(1);
+}
+// The name ends up in paths on disk and on the target: never "..", "." or "a/b"
+if (!isSlug(name)) {
+  console.error(`❌ Invalid project name "${name}": must be a lowercase slug (letters, digits and single dashes)`);
+  process.exit(1);
+}
+if (options.dryRun) {
+  console.log('📝 Dry run: nothing will be removed\n');
+}
+
+let target: DeployTarget | null = null;
+try {
+  if (!options.localOnly) {
+    target = createDeployTarget(targetFlag?.slice('--target='.length) || site.deploy.target, site.deploy);
+  }
+} catch (error) {
+  console.error(`❌ ${(error as Error).message}`);
+  process.exit(1);
+}
+
+try {
+  const projectDir = findProjectDir(name);
+  const slug = projectDir ? loadProjectMetadata(projectDir)?.name ?? name : name;
+  const title = findTitle(projectDir, slug);
+
+  const aliases = loadAliases(ALIASES_PATH);
+  const oldSlugs = Object.keys(aliases).filter(alias => aliases[alias] === slug);
+  const slugs = [slug, ...oldSlugs];
+
+  const hasLocalCopy = projectDir !== null || slugs.some(s => fs.existsSync(resolveInside(BUILDS_DIR, s)));
+  if (!hasLocalCopy && !target) {
+    console.error(`❌ Project not found: ${name}`);
+    process.exit(1);
+  }
+
+  console.log(`Removing: ${title} (${slug})`);
+  if (oldSlugs.length > 0) {
+    console.log(`Old slugs: ${oldSlugs.join(', ')}`);
+  }
+  if (target) {
+    console.log(`Target: ${target.name} (${target.location})`);
+  }
+
+  // Source
+  console.log('\n▶ Local files');
+  if (projectDir) {
+    const relativeDir = path.relative(process.cwd(), projectDir);
+    if (options.dryRun) {
+      console.log(`   📝 Would delete ${relativeDir}/`);
+    } else {
+      fs.rmSync(projectDir, { recursive: true, force: true });
+      console.log(`   ✓ Deleted ${relativeDir}/`);
+    }
+  }
+  if (oldSlugs.length > 0) {
+    if (options.dryRun) {
+      console.log(`   📝 Would remove ${oldSlugs.length} alias(es) from ${ALIASES_FILENAME}`);
+    } else {
+      oldSlugs.forEach(alias => delete aliases[alias]);
+      saveAliases(ALIASES_PATH, aliases);
+      console.log(`   ✓ Removed ${oldSlugs.length} alias(es) from ${ALIASES_FILENAME}`);
+    }
+  }
+
+  // Build output (and redirect pages at old slugs)
+  const manifest = loadBuildManifest(BUILDS_DIR);
+  for (const s of slugs) {
+    const buildDir = resolveInside(BUILDS_DIR, s);
+    if (options.tombstone) {
+      if (options.dryRun) {
+        console.log(`   📝 Would replace builds/${s}/ with a tombstone`);
+        continue;
+      }
+      writeTombstone(buildDir, title, today());
+      console.log(`   ✓ Replaced builds/${s}/ with a tombstone`);
+    } else if (fs.existsSync(buildDir)) {
+      if (options.dryRun) {
+        console.log(`   📝 Would delete builds/${s}/`);
+        continue;
+      }
+      fs.rmSync(buildDir, { recursive: true, force: true });
+      console.log(`   ✓ Deleted builds/${s}/`);
+    }
+    delete manifest.projects[s];
+  }
+  if (!options.dryRun) {
+    saveBuildManifest(BUILDS_DIR, manifest);
+  }
+
+  // Listings
+  if (options.dryRun) {
+    console.log('   📝 Would regenerate the gallery, feed, sitemap and search index in builds/');
+  } else {
+    writeGallery(PROJECTS_DIR, BUILDS_DIR);
+    writeFeeds(PROJECTS_DIR, BUILDS_DIR, SITE_URL);
+    await writeSearchIndex(PROJECTS_DIR, BUILDS_DIR, new Map());
+    console.log('   ✓ Regenerated the gallery, feed, sitemap and search index in builds/');
+  }
+
+  // Deployed copy
+  if (target) {
+    console.log(`\n▶ ${target.location}`);
+    for (const s of slugs) {
+      await removeDeployed(target, s, options);
+    }
+    await uploadSiteFiles(target, options.dryRun);
+
+    if (target.purgesCdn && options.dryRun) {
+      console.log('   📝 Would purge the Cloudflare cache');
+    } else if (target.purgesCdn) {
+      const purge = await purgeCloudflareCache();
+      if (purge === 'purged') {
+        console.log('   ✓ Cloudflare cache purged successfully');
+      } else if (purge === 'failed') {
+        console.log('   ⚠️  Cloudflare cache purge failed');
+      } else {
+        console.log('   ⚠️  Cloudflare cache purge skipped (set CF_ZONE_ID and CF_API_TOKEN)');
+      }
+    }
+  }
+} catch (error) {
+  if (error instanceof MetadataValidationError || error instanceof AliasMapError) {
+    console.error(`\n❌ ${error.message}`);
+    process.exit(1);
+  }
+  console.error(`\n❌ Removal failed: ${(error as Error).message}`);
+  process.exit(1);
+}
+
+if (options.dryRun) {
+  console.log('\n✨ Dry run complete, nothing was removed\n');
+} else {
+  console.log('\n✨ Removed! Commit the change to projects/ to make it permanent\n');
+}
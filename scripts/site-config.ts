@@ -0,0 +1,58 @@
+#!/usr/bin/env tsx
+/**
+ * Site Config
+ * Validates site.config.json with the environment overrides applied, and prints
+ * the result
+ *
+ * Usage:
+ *   npm run site-config                     # Print every value and where it came from
+ *   npm run site-config -- --get=siteUrl    # Print one value, e.g. for shell scripts
+ *
+ * Exits non-zero when the config is invalid or the key is unknown.
+ */
+
+import { ENV_OVERRIDES, loadSiteConfig, SITE_CONFIG_FILENAME, SiteConfigError, type SiteConfig } from './lib/site.ts';
+
+/**
+ * Every value by dotted key, e.g. "deploy.sftp.host".
+ */
+function flatten(value: unknown, prefix = ''): [string, string][] {
+  if (typeof value !== 'object' || value === null) {
+    return [[prefix, String(value)]];
+  }
+  return Object.entries(value).flatMap(([key, child]) => flatten(child, prefix ? `${prefix}.${key}` : key));
+}
+
+const getFlag = process.argv.slice(2).find(arg => arg.startsWith('--get='));
+
+let site: SiteConfig;
+try {
+  site = loadSiteConfig();
+} catch (error) {
+  if (!(error instanceof SiteConfigError)) throw error;
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
+const values = flatten(site);
+
+if (getFlag) {
+  const key = getFlag.slice('--get='.length);
+  const entry = values.find(([name]) => name === key);
+  if (!entry) {
+    console.error(`❌ Unknown key "${key}" (expected one of: ${values.map(([name]) => name).join(', ')})`);
+    process.exit(1);
+  }
+  console.log(entry[1]);
+} else {
+  console.log(`⚙️  Site config (${SITE_CONFIG_FILENAME})\n`);
+  const width = Math.max(...values.map(([name]) => name.length));
+  for (const [name, value] of values) {
+    const variable = ENV_OVERRIDES[name];
+    const source = name === 'basePath'
+      ? '  (from siteUrl)'
+      : variable && process.env[variable] ? `  (from ${variable})` : '';
+    console.log(`   ${name.padEnd(width)}  ${value}${source}`);
+  }
+  console.log();
+}
@@ -0,0 +1,101 @@
+#!/usr/bin/env tsx
+/**
+ * Vendor Add
+ * Downloads an external stylesheet, font or script into vendor-cache/ and
+ * records it in vendor-cache/vendor.json, so builds of projects with
+ * "vendor": true can serve it locally
+ *
+ * Usage:
+ *   npm run vendor-add -- <url>              # Store under vendor-cache/<host>/<path>
+ *   npm run vendor-add -- <url> fonts/x.css  # Store at a chosen path in the cache
+ *
+ * Stylesheets are fetched as a current browser would, so Google Fonts returns
+ * woff2 files; the fonts and imports a stylesheet references are listed
+ * afterwards and need adding as well. Re-adding a URL replaces its file.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  cssReferences,
+  isCachePath,
+  loadVendorCache,
+  VENDOR_MANIFEST_FILENAME,
+  VendorCacheError,
+  type VendorCache,
+} from './lib/vendor.ts';
+
+const VENDOR_CACHE_DIR = path.join(process.cwd(), 'vendor-cache');
+const USER_AGENT = 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36';
+
+/**
+ * Where a URL is stored by default: host and path, with a short hash of the
+ * query string (e.g. a Google Fonts family list) and an extension from the
+ * content type when the path has none.
+ */
+function defaultCachePath(url: URL, contentType: string): string {
+  let file = `${url.hostname}${url.pathname.replace(/\/$/, '/index')}`;
+  if (url.search) {
+    file += `-${crypto.createHash('sha256').update(url.search).digest('hex').slice(0, 8)}`;
+  }
+  if (!path.posix.extname(path.posix.basename(file)) || url.search) {
+    if (contentType.includes('text/css')) file += '.css';
+    else if (contentType.includes('javascript')) file += '.js';
+  }
+  return file;
+}
+
+const [urlArg, pathArg] = process.argv.slice(2).filter(arg => !arg.startsWith('-'));
+
+let url: URL;
+try {
+  url = new URL(urlArg ?? '');
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error();
+} catch {
+  console.error('❌ Usage: npm run vendor-add -- <http(s) url> [path in vendor-cache/]');
+  process.exit(1);
+}
+
+if (pathArg !== undefined && !isCachePath(pathArg)) {
+  console.error(`❌ Invalid cache path "${pathArg}": must be relative and inside vendor-cache/`);
+  process.exit(1);
+}
+
+let cache: VendorCache;
+try {
+  cache = loadVendorCache(VENDOR_CACHE_DIR);
+} catch (error) {
+  if (!(error instanceof VendorCacheError)) throw error;
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
+console.log(`📥 Downloading ${url.href}`);
+const response = await fetch(url, { headers: { 'User-Agent': USER_AGENT } });
+if (!response.ok) {
+  console.error(`❌ Download failed: HTTP ${response.status} ${response.statusText}`);
+  process.exit(1);
+}
+const contentType = response.headers.get('content-type') ?? '';
+const body = Buffer.from(await response.arrayBuffer());
+
+const cachePath = path.posix.normalize(pathArg ?? defaultCachePath(url, contentType));
+const target = path.join(VENDOR_CACHE_DIR, cachePath);
+fs.mkdirSync(path.dirname(target), { recursive: true });
+fs.writeFileSync(target, body);
+
+// Keyed by the URL as given, which is how pages reference it
+const entries = { ...cache.entries, [urlArg]: cachePath };
+const sorted = Object.fromEntries(Object.entries(entries).sort(([a], [b]) => a.localeCompare(b)));
+fs.writeFileSync(path.join(VENDOR_CACHE_DIR, VENDOR_MANIFEST_FILENAME), `${JSON.stringify(sorted, null, 2)}\n`);
+console.log(`   ✓ Saved ${(body.length / 1024).toFixed(1)} KB to vendor-cache/${cachePath}`);
+
+if (contentType.includes('text/css') || path.extname(cachePath).toLowerCase() === '.css') {
+  const needed = cssReferences(body.toString('utf-8'), urlArg).filter(reference => !entries[reference]);
+  if (needed.length > 0) {
+    console.log(`\n⚠️  The stylesheet references ${needed.length} file(s) not in the cache yet:`);
+    needed.forEach(reference => console.log(`   npm run vendor-add -- '${reference}'`));
+  }
+}
+console.log();
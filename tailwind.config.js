@@ -1,10 +1,8 @@
+// Base config. Builds of projects/<name>/ replace `content` with the project's
+// own files and merge its tailwind.theme.json (scripts/lib/tailwind.ts)
 /** @type {import('tailwindcss').Config} */
 export default {
-  content: [
-    "./index.html",
-    "./src/**/*.{js,ts,jsx,tsx}",
-    "./*.{js,ts,jsx,tsx}",
-  ],
+  content: [],
   theme: {
     extend: {},
   },